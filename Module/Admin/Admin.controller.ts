@@ -5,13 +5,14 @@ import User from "../../entity/User";
 import Product from "../../entity/Product";
 import Attachment from "../../entity/Attachment";
 import Abonnement from "../../entity/Abonnement";
-import Papier from "../../entity/Papier";
+import Papier, { IPapier } from "../../entity/Papier";
 import Problem from "../../entity/Problem";
 import mongoose from "mongoose";
 import bcrypt from "bcrypt";
-import path from "path";
-import fs from "fs";
 import Joi from "joi";
+import { catalogRows, sendCatalog } from "../../utils/catalogExport.service";
+import { releaseFiles, findOrphanedUploads, removeOrphanedUploads, PaperDocument } from "../../utils/fileStore.service";
+import { signedFileUrl, optionalFileUrl, PRIVATE_LINK_TTL } from "../../utils/storage.service";
 
 // Get admin dashboard statistics
 export const getAdminStatistics = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -567,6 +568,85 @@ export const getAllOrders = async (req: AuthRequest, res: Response): Promise<voi
   }
 };
 
+// Export the whole catalog in the Excel import layout (?format=xlsx|csv), filtered by ?supplierId= and ?productType=
+export const exportCatalog = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    // Verify user is admin
+    const user = await User.findById(userId);
+    if (!user || user.role !== "admin") {
+      res.status(403).json({
+        success: false,
+        message: "Only admins can access this resource",
+      });
+      return;
+    }
+
+    const { supplierId, productType } = req.query;
+    const format = req.query.format === undefined ? "xlsx" : String(req.query.format);
+    if (format !== "xlsx" && format !== "csv") {
+      res.status(400).json({
+        success: false,
+        message: "format must be 'xlsx' or 'csv'",
+      });
+      return;
+    }
+
+    const filter: any = {};
+    if (supplierId !== undefined) {
+      if (typeof supplierId !== "string" || !mongoose.Types.ObjectId.isValid(supplierId)) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid supplier ID",
+        });
+        return;
+      }
+      filter.supplierId = supplierId;
+    }
+    if (productType && productType !== "all") {
+      if (productType !== "Labo médical" && productType !== "labo d'ana pathologies") {
+        res.status(400).json({
+          success: false,
+          message: "Product type must be 'Labo médical' or 'labo d'ana pathologies'",
+        });
+        return;
+      }
+      filter.productType = productType;
+    }
+
+    const products = await Product.find(filter)
+      .populate("supplierId", "firstName lastName email")
+      .sort({ supplierId: 1, createdAt: 1 });
+
+    // Supplier columns come after the import layout and are ignored on re-import
+    const rows = products.flatMap((product) => {
+      const supplier = product.supplierId as any;
+      const supplierColumns = {
+        supplierId: supplier?._id ? supplier._id.toString() : String(product.supplierId),
+        supplierName: supplier?.firstName ? `${supplier.firstName} ${supplier.lastName}` : "",
+        supplierEmail: supplier?.email || "",
+      };
+      return catalogRows([product]).map((row) => ({ ...row, ...supplierColumns }));
+    });
+
+    sendCatalog(res, rows, format, `catalog-${new Date().toISOString().slice(0, 10)}`, ["supplierId", "supplierName", "supplierEmail"]);
+  } catch (err: unknown) {
+    console.error("Export catalog error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
 // Get all users (excluding admins) for admin
 export const getAllUsers = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -849,36 +929,23 @@ export const uploadAdminProfileImage = async (req: AuthRequest, res: Response):
       return;
     }
 
-    // Rename file with userId
-    const fileExt = path.extname(file.originalname);
-    const newFileName = `${userId}-profile-${Date.now()}-${Math.round(Math.random() * 1e9)}${fileExt}`;
-    const newFilePath = path.join(path.dirname(file.path), newFileName);
-    
-    // Rename the file
-    fs.renameSync(file.path, newFilePath);
-    const relativePath = newFilePath.replace(/\\/g, "/");
+    const relativePath = file.path;
 
     // Check if attachment already exists
     const existingAttachment = await Attachment.findOne({ id_user: userId });
     if (existingAttachment) {
-      // Delete old file if it exists
-      if (existingAttachment.image && fs.existsSync(existingAttachment.image)) {
-        try {
-          fs.unlinkSync(existingAttachment.image);
-        } catch (err) {
-          console.error("Error deleting old profile image:", err);
-        }
-      }
-      // Update existing attachment
+      // Update existing attachment, then delete the old file
+      const previousImage = existingAttachment.image;
       existingAttachment.image = relativePath;
       await existingAttachment.save();
+      await releaseFiles([previousImage]);
 
       res.status(200).json({
         success: true,
         message: "Profile image updated successfully",
         data: {
           id: existingAttachment._id,
-          image: relativePath,
+          image: signedFileUrl(relativePath),
         },
       });
     } else {
@@ -895,7 +962,7 @@ export const uploadAdminProfileImage = async (req: AuthRequest, res: Response):
         message: "Profile image uploaded successfully",
         data: {
           id: newAttachment._id,
-          image: relativePath,
+          image: signedFileUrl(relativePath),
         },
       });
     }
@@ -942,7 +1009,7 @@ export const getAdminProfileImage = async (req: AuthRequest, res: Response): Pro
       success: true,
       data: {
         id: attachment._id,
-        image: attachment.image,
+        image: signedFileUrl(attachment.image),
       },
     });
   } catch (err: unknown) {
@@ -954,6 +1021,116 @@ export const getAdminProfileImage = async (req: AuthRequest, res: Response): Pro
   }
 };
 
+// Minimum age of the files reported by the orphaned uploads sweep (?minAgeHours=, default 24)
+const parseMinAgeHours = (raw: unknown): { error: string } | { minAgeMs: number } => {
+  const hours = raw === undefined ? 24 : Number(raw);
+  if (!Number.isFinite(hours) || hours < 1 || hours > 8760) {
+    return { error: "minAgeHours must be a number between 1 and 8760" };
+  }
+  return { minAgeMs: hours * 60 * 60 * 1000 };
+};
+
+// List files under uploads/ that no product, attachment, document or payment uses (admin only)
+export const getOrphanedUploads = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    // Verify user is admin
+    const user = await User.findById(userId);
+    if (!user || user.role !== "admin") {
+      res.status(403).json({
+        success: false,
+        message: "Only admins can access this resource",
+      });
+      return;
+    }
+
+    const parsed = parseMinAgeHours(req.query.minAgeHours);
+    if ("error" in parsed) {
+      res.status(400).json({
+        success: false,
+        message: parsed.error,
+      });
+      return;
+    }
+
+    const orphans = await findOrphanedUploads(parsed.minAgeMs);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        count: orphans.length,
+        totalSize: orphans.reduce((sum, o) => sum + o.size, 0),
+        files: orphans,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get orphaned uploads error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Delete the files under uploads/ that no record uses and report them (admin only)
+export const deleteOrphanedUploads = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    // Verify user is admin
+    const user = await User.findById(userId);
+    if (!user || user.role !== "admin") {
+      res.status(403).json({
+        success: false,
+        message: "Only admins can access this resource",
+      });
+      return;
+    }
+
+    const parsed = parseMinAgeHours(req.query.minAgeHours);
+    if ("error" in parsed) {
+      res.status(400).json({
+        success: false,
+        message: parsed.error,
+      });
+      return;
+    }
+
+    const removed = await removeOrphanedUploads(await findOrphanedUploads(parsed.minAgeMs));
+
+    res.status(200).json({
+      success: true,
+      message: `${removed.length} orphaned file(s) deleted`,
+      data: {
+        count: removed.length,
+        totalSize: removed.reduce((sum, o) => sum + o.size, 0),
+        files: removed,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Delete orphaned uploads error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
 // Get admin profile (with image)
 export const getAdminProfile = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -990,7 +1167,7 @@ export const getAdminProfile = async (req: AuthRequest, res: Response): Promise<
         address: user.address,
         role: user.role,
         status: user.status,
-        profileImage: attachment?.image || null,
+        profileImage: optionalFileUrl(attachment?.image),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       },
@@ -1060,7 +1237,7 @@ export const updateAdminProfile = async (req: AuthRequest, res: Response): Promi
         address: user.address,
         role: user.role,
         status: user.status,
-        profileImage: attachment?.image || null,
+        profileImage: optionalFileUrl(attachment?.image),
         updatedAt: user.updatedAt,
       },
     });
@@ -1706,6 +1883,15 @@ export const updateSubscription = async (req: AuthRequest, res: Response): Promi
   }
 };
 
+// Papier with short-lived signed links (PRIVATE_LINK_TTL) for the admin document viewer,
+// which displays them without sending the token
+const withDocumentLinks = <T extends Pick<IPapier, PaperDocument>>(papier: T) => ({
+  ...papier,
+  identity: optionalFileUrl(papier.identity, PRIVATE_LINK_TTL),
+  Tax_number: optionalFileUrl(papier.Tax_number, PRIVATE_LINK_TTL),
+  commercial_register: optionalFileUrl(papier.commercial_register, PRIVATE_LINK_TTL),
+});
+
 // Get user papers (Papier)
 export const getUserPapers = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -1736,7 +1922,7 @@ export const getUserPapers = async (req: AuthRequest, res: Response): Promise<vo
     res.status(200).json({
       success: true,
       data: {
-        papers: papers || null,
+        papers: papers ? withDocumentLinks(papers) : null,
       },
     });
   } catch (err: unknown) {
@@ -1772,13 +1958,17 @@ export const getUserDocuments = async (req: AuthRequest, res: Response): Promise
 
     const { userId: targetUserId } = req.params;
 
-    // Get documents for the user
-    const documents = await Attachment.findOne({ id_user: targetUserId }).lean();
+    // Get documents for the user (profile image and identity/company documents)
+    const [documents, papers] = await Promise.all([
+      Attachment.findOne({ id_user: targetUserId }).lean(),
+      Papier.findOne({ id_user: targetUserId }).lean(),
+    ]);
 
     res.status(200).json({
       success: true,
       data: {
-        documents: documents || null,
+        documents: documents ? { ...documents, image: signedFileUrl(documents.image) } : null,
+        papers: papers ? withDocumentLinks(papers) : null,
       },
     });
   } catch (err: unknown) {
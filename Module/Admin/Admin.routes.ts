@@ -1,12 +1,12 @@
 import { Router } from "express";
 import multer from "multer";
 import path from "path";
-import fs from "fs";
 import {
   getAdminStatistics,
   getDetailedAdminStatistics,
   getAllOrders,
   getAllUsers,
+  exportCatalog,
   updateUserStatus,
   getAdminProfile,
   updateAdminProfile,
@@ -24,32 +24,25 @@ import {
   getUserDocuments,
   getAllProblems,
   markProblemAsRead,
+  getOrphanedUploads,
+  deleteOrphanedUploads,
 } from "./Admin.controller";
 import { authenticateToken } from "../../middleware/auth.middleware";
+import { discardUploadsOnError } from "../../middleware/fileSecurity.middleware";
+import { uploadStorage } from "../../utils/storage.service";
 
 const router = Router();
 
-// Ensure uploads/profile-images directory exists
 const profileImagesDir = "uploads/profile-images";
-if (!fs.existsSync(profileImagesDir)) {
-  fs.mkdirSync(profileImagesDir, { recursive: true });
-}
 
 // Configure multer for profile image uploads
-const profileImageStorage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    // Ensure directory exists
-    if (!fs.existsSync(profileImagesDir)) {
-      fs.mkdirSync(profileImagesDir, { recursive: true });
-    }
-    cb(null, profileImagesDir);
-  },
+const profileImageStorage = uploadStorage({
+  destination: profileImagesDir,
   filename: (req, file, cb) => {
-    // userId will be available after authentication middleware runs
-    // We'll use a temporary name and update it in the controller if needed
-    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+    // authenticateToken runs before multer, so the file is named after the admin directly
+    const userId = (req as any).userId || "anonymous";
     const ext = path.extname(file.originalname);
-    cb(null, `temp-profile-${uniqueSuffix}${ext}`);
+    cb(null, `${userId}-profile-${Date.now()}-${Math.round(Math.random() * 1e9)}${ext}`);
   },
 });
 
@@ -74,6 +67,7 @@ router.get("/statistics", authenticateToken, getAdminStatistics);
 router.get("/statistics/detailed", authenticateToken, getDetailedAdminStatistics);
 router.get("/orders", authenticateToken, getAllOrders);
 router.get("/users", authenticateToken, getAllUsers);
+router.get("/products/export", authenticateToken, exportCatalog);
 router.put("/users/:userId/status", authenticateToken, updateUserStatus);
 
 // Admin management routes
@@ -96,6 +90,7 @@ router.put("/password", authenticateToken, updateAdminPassword);
 router.post(
   "/profile-image",
   authenticateToken,
+  discardUploadsOnError,
   uploadProfileImageMulter.single("image"),
   uploadAdminProfileImage
 );
@@ -105,4 +100,8 @@ router.get("/profile-image", authenticateToken, getAdminProfileImage);
 router.get("/problems", authenticateToken, getAllProblems);
 router.put("/problems/:problemId/read", authenticateToken, markProblemAsRead);
 
+// Files under uploads/ no longer used by any record (?minAgeHours=, default 24)
+router.get("/uploads/orphans", authenticateToken, getOrphanedUploads);
+router.delete("/uploads/orphans", authenticateToken, deleteOrphanedUploads);
+
 export default router;
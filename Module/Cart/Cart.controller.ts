@@ -0,0 +1,343 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import Cart, { ICart } from "../../entity/Cart";
+import Product, { IProduct } from "../../entity/Product";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { getUnitPrice } from "../../utils/pricing.service";
+import { buildOrderLine } from "../../utils/order.service";
+import { imageUrls } from "../../utils/image.service";
+
+// Build the cart view with live prices and stock from Product
+const buildCartResponse = async (cart: ICart | null) => {
+  if (!cart || cart.items.length === 0) {
+    return { items: [], total: 0, itemsCount: 0, hasChanges: false };
+  }
+
+  const products = await Product.find({ _id: { $in: cart.items.map((i) => i.productId) } })
+    .populate("supplierId", "firstName lastName");
+
+  const items = cart.items.map((item) => {
+    const product: any = products.find((p) => p._id.toString() === item.productId.toString());
+    const variant = product && item.variantId ? findVariant(product, item.variantId) : undefined;
+    if (!product || (item.variantId && !variant)) {
+      return {
+        productId: item.productId.toString(),
+        variantId: item.variantId?.toString(),
+        quantity: item.quantity,
+        priceAtAdd: item.priceAtAdd,
+        unavailable: true, // Product or variant was deleted by its supplier
+        priceChanged: false,
+        outOfStock: true,
+        insufficientStock: true,
+        addedAt: item.addedAt,
+      };
+    }
+
+    // Variants have their own price and stock; volume tiers only apply to products without variants
+    const price = variant ? variant.sellingPrice : getUnitPrice(product, item.quantity);
+    const basePrice = variant ? variant.sellingPrice : product.sellingPrice;
+    const available = variant ? variant.quantity : product.quantity;
+
+    return {
+      productId: product._id.toString(),
+      variantId: variant?._id.toString(),
+      name: variant ? `${product.name} - ${variant.label}` : product.name,
+      reference: variant ? variant.reference : product.reference,
+      images: (variant && variant.images.length > 0 ? variant.images : product.images || []).map((image: string) => imageUrls(image)),
+      quantity: item.quantity,
+      price,
+      basePrice,
+      priceTiers: variant ? [] : product.priceTiers || [],
+      priceAtAdd: item.priceAtAdd,
+      lineTotal: price * item.quantity,
+      available,
+      unavailable: false,
+      priceChanged: basePrice !== item.priceAtAdd,
+      outOfStock: available === 0,
+      insufficientStock: available < item.quantity,
+      supplier: product.supplierId
+        ? {
+            id: product.supplierId._id.toString(),
+            name: `${product.supplierId.firstName} ${product.supplierId.lastName}`,
+          }
+        : null,
+      addedAt: item.addedAt,
+    };
+  });
+
+  return {
+    items,
+    total: items.reduce((sum, item) => sum + (item.unavailable ? 0 : item.lineTotal!), 0),
+    itemsCount: items.length,
+    hasChanges: items.some((item) => item.unavailable || item.priceChanged || item.insufficientStock),
+  };
+};
+
+const findVariant = (product: IProduct, variantId: unknown) =>
+  product.variants?.find((v) => v._id.toString() === String(variantId));
+
+// A cart line is one product, or one variant of a product
+const isSameLine = (item: ICart["items"][number], productId: string, variantId?: unknown): boolean =>
+  item.productId.toString() === productId && (item.variantId?.toString() || "") === (variantId ? String(variantId) : "");
+
+// Validate a quantity coming from the request body
+const parseQuantity = (value: unknown): number | null => {
+  const quantity = typeof value === "string" ? parseInt(value) : Number(value);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > 1000000) {
+    return null;
+  }
+  return quantity;
+};
+
+// Get the client's cart
+export const getCart = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const cart = await Cart.findOne({ idClient: userId });
+
+    res.status(200).json({
+      success: true,
+      data: await buildCartResponse(cart),
+    });
+  } catch (err: unknown) {
+    console.error("Get cart error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Add a product to the cart (adds to the quantity if already present)
+export const addCartItem = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { productId, variantId } = req.body;
+    const quantity = parseQuantity(req.body.quantity);
+
+    if (!productId || !mongoose.Types.ObjectId.isValid(productId) || quantity === null) {
+      res.status(400).json({
+        success: false,
+        message: "Valid productId and quantity (integer >= 1) are required",
+      });
+      return;
+    }
+
+    const product = await Product.findById(productId);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+      return;
+    }
+
+    // Clients can only buy products matching their laboratory type
+    if (req.userLaboType && product.productType !== req.userLaboType) {
+      res.status(403).json({
+        success: false,
+        message: "Ce produit n'est pas disponible pour votre type de laboratoire",
+      });
+      return;
+    }
+
+    // Products sold by variant are added one variant at a time
+    const orderLine = buildOrderLine(product, variantId, quantity);
+    if ("error" in orderLine) {
+      res.status(400).json({
+        success: false,
+        message: orderLine.error,
+      });
+      return;
+    }
+    const variant = orderLine.line.variantId ? findVariant(product, orderLine.line.variantId) : undefined;
+    const available = variant ? variant.quantity : product.quantity;
+    const basePrice = variant ? variant.sellingPrice : product.sellingPrice;
+
+    const cart = (await Cart.findOne({ idClient: userId })) || new Cart({ idClient: userId, items: [] });
+    const existing = cart.items.find((item) => isSameLine(item, productId, orderLine.line.variantId));
+    const newQuantity = (existing ? existing.quantity : 0) + quantity;
+
+    if (newQuantity > available) {
+      res.status(400).json({
+        success: false,
+        message: `Insufficient quantity for product ${orderLine.line.name}. Available: ${available}, Requested: ${newQuantity}`,
+      });
+      return;
+    }
+
+    if (existing) {
+      existing.quantity = newQuantity;
+      existing.priceAtAdd = basePrice;
+    } else {
+      cart.items.push({
+        productId: product._id,
+        ...(variant && { variantId: variant._id }),
+        quantity,
+        priceAtAdd: basePrice,
+        addedAt: new Date(),
+      });
+    }
+
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Product added to cart",
+      data: await buildCartResponse(cart),
+    });
+  } catch (err: unknown) {
+    console.error("Add cart item error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Set the quantity of a cart line (?variantId= for a variant line)
+export const updateCartItem = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { productId } = req.params;
+    const quantity = parseQuantity(req.body.quantity);
+
+    if (quantity === null) {
+      res.status(400).json({
+        success: false,
+        message: "Quantity must be an integer >= 1",
+      });
+      return;
+    }
+
+    const { variantId } = req.query;
+    const cart = await Cart.findOne({ idClient: userId });
+    const line = cart?.items.find((item) => isSameLine(item, productId, variantId));
+    if (!cart || !line) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found in cart",
+      });
+      return;
+    }
+
+    const product = await Product.findById(productId);
+    const available = product ? (line.variantId ? findVariant(product, line.variantId)?.quantity : product.quantity) : undefined;
+    if (product && available !== undefined && quantity > available) {
+      res.status(400).json({
+        success: false,
+        message: `Insufficient quantity for product ${product.name}. Available: ${available}, Requested: ${quantity}`,
+      });
+      return;
+    }
+
+    line.quantity = quantity;
+    await cart.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Cart updated",
+      data: await buildCartResponse(cart),
+    });
+  } catch (err: unknown) {
+    console.error("Update cart item error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Remove a line from the cart (?variantId= for a variant line)
+export const removeCartItem = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { productId } = req.params;
+    const { variantId } = req.query;
+    if (!mongoose.Types.ObjectId.isValid(productId) || (variantId !== undefined && !mongoose.Types.ObjectId.isValid(String(variantId)))) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid product or variant ID",
+      });
+      return;
+    }
+
+    const cart = await Cart.findOneAndUpdate(
+      { idClient: userId },
+      { $pull: { items: { productId, variantId: variantId ? String(variantId) : null } } },
+      { new: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Product removed from cart",
+      data: await buildCartResponse(cart),
+    });
+  } catch (err: unknown) {
+    console.error("Remove cart item error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Empty the cart
+export const clearCart = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    await Cart.updateOne({ idClient: userId }, { $set: { items: [] } });
+
+    res.status(200).json({
+      success: true,
+      message: "Cart cleared",
+      data: await buildCartResponse(null),
+    });
+  } catch (err: unknown) {
+    console.error("Clear cart error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
@@ -0,0 +1,33 @@
+import { Router } from "express";
+import {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+} from "./Cart.controller";
+import { authenticateToken } from "../../middleware/auth.middleware";
+import { requireClient } from "../../middleware/role.middleware";
+
+const router = Router();
+
+// All routes require authentication as a client
+router.use(authenticateToken);
+router.use(requireClient);
+
+// Get cart with live prices, stock and change flags
+router.get("/", getCart);
+
+// Add product (or one of its variants, body.variantId) to cart
+router.post("/items", addCartItem);
+
+// Update quantity of a cart line (?variantId= for a variant line)
+router.put("/items/:productId", updateCartItem);
+
+// Remove a cart line (?variantId= for a variant line)
+router.delete("/items/:productId", removeCartItem);
+
+// Empty the cart
+router.delete("/", clearCart);
+
+export default router;
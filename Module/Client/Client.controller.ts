@@ -19,6 +19,7 @@ export const setSocketIO = (socketIO: any) => {
 import { AppConfig } from "../../config/app.config";
 import { AuthRequest } from "../../middleware/auth.middleware";
 import { sendPasswordResetCode, sendProblemNotificationEmail } from "../../utils/email.service";
+import { releaseFiles, paperDocumentUrl } from "../../utils/fileStore.service";
 
 // Register function
 export const register = async (req: Request, res: Response): Promise<void> => {
@@ -311,6 +312,7 @@ export const getProfile = async (req: AuthRequest, res: Response): Promise<void>
         rip_post: user.rip_post || "",
         rip_bank: user.rip_bank || "",
         methode_payment: user.methode_payment || [],
+        ...(user.role === "supplier" && { lowStockEmailAlerts: user.lowStockEmailAlerts || false }),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       },
@@ -772,9 +774,11 @@ export const uploadClientDocuments = async (req: AuthRequest, res: Response): Pr
     const existingPapier = await Papier.findOne({ id_user: userId });
     if (existingPapier) {
       // Update existing document
+      const previousIdentity = existingPapier.identity;
       existingPapier.type = "client";
       existingPapier.identity = identityFile.path;
       await existingPapier.save();
+      await releaseFiles([previousIdentity]);
 
       res.status(200).json({
         success: true,
@@ -782,7 +786,7 @@ export const uploadClientDocuments = async (req: AuthRequest, res: Response): Pr
         data: {
           id: existingPapier._id,
           type: existingPapier.type,
-          identity: existingPapier.identity,
+          identity: paperDocumentUrl(existingPapier, "identity"),
         },
       });
     } else {
@@ -801,7 +805,7 @@ export const uploadClientDocuments = async (req: AuthRequest, res: Response): Pr
         data: {
           id: newPapier._id,
           type: newPapier.type,
-          identity: newPapier.identity,
+          identity: paperDocumentUrl(newPapier, "identity"),
         },
       });
     }
@@ -20,11 +20,13 @@ import {
   canRateSupplier,
 } from "./Client.controller";
 import { authenticateToken } from "../../middleware/auth.middleware";
+import { discardUploadsOnError } from "../../middleware/fileSecurity.middleware";
+import { uploadStorage } from "../../utils/storage.service";
 
 const router = Router();
 
 // Configure multer for file uploads
-const storage = multer.diskStorage({
+const storage = uploadStorage({
   destination: (req, file, cb) => {
     cb(null, "uploads/documents/");
   },
@@ -71,6 +73,7 @@ router.get("/role", authenticateToken, getUserRole);
 router.post(
   "/documents",
   authenticateToken,
+  discardUploadsOnError,
   upload.fields([
     { name: "identity", maxCount: 1 },
   ]),
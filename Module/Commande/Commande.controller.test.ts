@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Response } from "express";
+import mongoose from "mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { createOrder } from "./Commande.controller";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import User from "../../entity/User";
+import Product from "../../entity/Product";
+import Commande from "../../entity/Commande";
+
+// Orders reserve stock in a transaction, so this needs a replica set (a single in-memory node)
+let replSet: MongoMemoryReplSet;
+
+beforeAll(async () => {
+  replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: "wiredTiger" } });
+  await mongoose.connect(replSet.getUri("labo-test"));
+  // Collections are created up front: the first order must not create them inside its transaction
+  await Promise.all(mongoose.modelNames().map((name) => mongoose.model(name).createCollection()));
+}, 120_000);
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await replSet?.stop();
+});
+
+// Response stub recording the status and JSON body sent by a handler
+const mockResponse = () => {
+  const res = { statusCode: 200, body: undefined as any };
+  return Object.assign(res, {
+    status(code: number) {
+      res.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return this;
+    },
+  });
+};
+
+const createUser = (role: "client" | "supplier", email: string) =>
+  User.create({
+    firstName: role,
+    lastName: "Test",
+    email,
+    password: "hashed-password",
+    phone: "0550000000",
+    address: "Alger",
+    role,
+    laboType: "Labo médical",
+    methode_payment: role === "supplier" ? ["cash"] : [],
+  });
+
+test("concurrent orders on the same stock never oversell it", async () => {
+  const supplier = await createUser("supplier", "supplier@test.dz");
+  const clients = await Promise.all(Array.from({ length: 8 }, (_, i) => createUser("client", `client${i}@test.dz`)));
+  const product = await Product.create({
+    name: "Réactif glucose",
+    purchasePrice: 100,
+    sellingPrice: 150,
+    quantity: 5,
+    category: "Biochimie",
+    deliveryTime: "48h",
+    brand: "Biolabo",
+    productType: "Labo médical",
+    supplierId: supplier._id,
+  });
+
+  // Every client orders 2 of the 5 units at the same time: at most 2 orders can be served
+  const responses = await Promise.all(
+    clients.map(async (client) => {
+      const req = {
+        userId: client._id.toString(),
+        body: { products: [{ id: product._id.toString(), quantity: 2 }], paymentMethod: "cash" },
+      } as AuthRequest;
+      const res = mockResponse();
+      await createOrder(req, res as unknown as Response);
+      return res;
+    })
+  );
+
+  const created = responses.filter((res) => res.statusCode === 201);
+  const conflicts = responses.filter((res) => res.statusCode === 409);
+  expect(created.length).toBe(2);
+  expect(conflicts.length).toBe(clients.length - created.length);
+  conflicts.forEach((res) => expect(res.body.success).toBe(false));
+
+  const stored = await Product.findById(product._id);
+  expect(stored!.quantity).toBe(1);
+  expect(await Commande.countDocuments({ idSupplier: supplier._id })).toBe(created.length);
+}, 60_000);
@@ -1,10 +1,30 @@
 import { Request, Response } from "express";
-import mongoose from "mongoose";
-import Commande from "../../entity/Commande";
+import mongoose, { QueryFilter } from "mongoose";
+import Commande, { CommandeStatus, ICommande, PaymentMethod } from "../../entity/Commande";
 import { AuthRequest } from "../../middleware/auth.middleware";
 import Product from "../../entity/Product";
 import User from "../../entity/User";
-import Notification from "../../entity/Notification";
+import Notification, { INotification } from "../../entity/Notification";
+import DocumentCounter from "../../entity/DocumentCounter";
+import Cart from "../../entity/Cart";
+import { reserveStock, restoreStock, InsufficientStockError } from "../../utils/stock.service";
+import { notifyLowStock } from "../../utils/stockAlert.service";
+import { orderMovementEntries, recordMovements } from "../../utils/inventory.service";
+import { writeInvoicePdf, writeDeliveryNotePdf } from "../../utils/pdf.service";
+import {
+  statusChange,
+  resolvePaymentMethod,
+  paymentInstructions,
+  buildOrderLine,
+  OrderLine,
+} from "../../utils/order.service";
+import {
+  applyPromotions,
+  claimPromotions,
+  releasePromotions,
+  PromotionUnavailableError,
+  OrderPricing,
+} from "../../utils/promotion.service";
 
 // Socket.io instance (will be set from index.ts)
 let io: any = null;
@@ -24,7 +44,7 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
-    const { products } = req.body;
+    const { products, paymentMethod, couponCode } = req.body;
 
     if (!products || !Array.isArray(products) || products.length === 0) {
       res.status(400).json({
@@ -34,6 +54,14 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
+    if (couponCode !== undefined && typeof couponCode !== "string") {
+      res.status(400).json({
+        success: false,
+        message: "Coupon code must be a string",
+      });
+      return;
+    }
+
     // Verify user is a client
     const user = await User.findById(userId);
     if (!user || user.role !== "client") {
@@ -44,14 +72,8 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
-    // Validate and process products
-    let total = 0;
-    const processedProducts: Array<{
-      productId: mongoose.Types.ObjectId;
-      name: string;
-      price: number;
-      quantity: number;
-    }> = [];
+    // Validate and process products (item.variantId for products sold by variant)
+    const processedProducts: OrderLine[] = [];
     const supplierIds = new Set<string>();
 
     for (const item of products) {
@@ -73,29 +95,22 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
         return;
       }
 
-      // Check if product has enough quantity
-      if (product.quantity < item.quantity) {
-        res.status(400).json({
-          success: false,
-          message: `Insufficient quantity for product ${product.name}. Available: ${product.quantity}, Requested: ${item.quantity}`,
-        });
-        return;
-      }
-
       // Get supplier ID
       if (product.supplierId) {
         supplierIds.add(product.supplierId.toString());
       }
 
-      const itemPrice = product.sellingPrice * item.quantity;
-      total += itemPrice;
+      // Volume tiers apply automatically from their minimum quantity
+      const orderLine = buildOrderLine(product, item.variantId, item.quantity);
+      if ("error" in orderLine) {
+        res.status(400).json({
+          success: false,
+          message: orderLine.error,
+        });
+        return;
+      }
 
-      processedProducts.push({
-        productId: product._id,
-        name: product.name,
-        price: product.sellingPrice,
-        quantity: item.quantity,
-      });
+      processedProducts.push(orderLine.line);
     }
 
     // Check if we have at least one supplier
@@ -107,38 +122,105 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
-    // If multiple suppliers, we'll create separate orders for each
-    // But for now, we'll create one order with the first supplier
-    // The frontend should group products by supplier and send separate requests
-    // This maintains backward compatibility
+    // Carts spanning several suppliers go through POST /checkout, which splits them
     if (supplierIds.size > 1) {
       res.status(400).json({
         success: false,
-        message: "All products must be from the same supplier. Please group products by supplier and create separate orders.",
+        message: "All products must be from the same supplier. Use /api/commandes/checkout for multi-supplier carts.",
       });
       return;
     }
 
     const supplierId = Array.from(supplierIds)[0];
 
-    // Create order
-    const newOrder = new Commande({
-      total,
-      products: processedProducts,
-      idBuyer: userId,
-      idSupplier: supplierId,
-      status: "en cours",
-    });
+    const supplier = await User.findById(supplierId);
+    if (!supplier) {
+      res.status(404).json({
+        success: false,
+        message: "Supplier not found",
+      });
+      return;
+    }
 
-    await newOrder.save();
+    const payment = resolvePaymentMethod(supplier, paymentMethod);
+    if ("error" in payment) {
+      res.status(400).json({
+        success: false,
+        message: payment.error,
+      });
+      return;
+    }
 
-    // Update product quantities
-    for (const item of products) {
-      await Product.findByIdAndUpdate(item.id, {
-        $inc: { quantity: -item.quantity },
+    // Running promotions of the supplier and the client's coupon
+    const pricing = await applyPromotions(supplierId, userId, processedProducts, couponCode || undefined);
+    if ("error" in pricing) {
+      res.status(400).json({
+        success: false,
+        message: pricing.error,
+      });
+      return;
+    }
+    const total = pricing.total;
+
+    // Insert the order and reserve stock atomically: stock is only decremented if enough is
+    // left at write time, and a shortage on any line rolls back the whole order
+    let newOrder: ICommande;
+    const session = await mongoose.startSession();
+    try {
+      newOrder = await session.withTransaction(async () => {
+        // Lot-tracked lines record the lots they were taken from
+        const reservations = await reserveStock(processedProducts, session);
+        await claimPromotions(pricing.promotions, userId, session);
+        const [order] = await Commande.create(
+          [
+            {
+              total,
+              subtotal: pricing.subtotal,
+              discount: pricing.discount,
+              promotions: pricing.promotions,
+              products: pricing.products.map((line, i) => ({ ...line, lots: reservations[i].lots })),
+              idBuyer: userId,
+              idSupplier: supplierId,
+              status: "en cours",
+              statusHistory: [statusChange(null, "en cours", userId, "client")],
+              paymentMethod: payment.method,
+            },
+          ],
+          { session }
+        );
+        await recordMovements(
+          orderMovementEntries(
+            "sale",
+            supplierId,
+            order.products,
+            reservations.map((r) => r.quantityAfter),
+            { id: userId, role: "client" },
+            { orderId: order._id }
+          ),
+          session
+        );
+        return order;
       });
+    } catch (err: unknown) {
+      if (err instanceof InsufficientStockError) {
+        sendStockConflict(res, err);
+        return;
+      }
+      if (err instanceof PromotionUnavailableError) {
+        sendPromotionConflict(res, err);
+        return;
+      }
+      throw err;
+    } finally {
+      await session.endSession();
     }
 
+    // Ordered products leave the client's saved cart
+    await removeFromCart(userId, processedProducts);
+
+    // Alert the supplier about products that reached their low-stock threshold (in the background)
+    notifyLowStock(supplierId, processedProducts);
+
     // Populate order for response
     const populatedOrder = await Commande.findById(newOrder._id)
       .populate("idBuyer", "firstName lastName email")
@@ -174,6 +256,7 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
       data: populatedOrder,
       orderId: newOrder._id.toString(),
       supplierId: supplierId,
+      payment: paymentInstructions(payment.method, payment.rip),
     });
   } catch (err: unknown) {
     console.error("Create order error:", err);
@@ -184,7 +267,290 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
   }
 };
 
-// Get orders for a client
+// Respond with the products that ran out while reserving stock
+const sendStockConflict = (res: Response, err: InsufficientStockError): void => {
+  res.status(409).json({
+    success: false,
+    message: `${err.message}. No order has been created.`,
+    outOfStock: err.shortages,
+  });
+};
+
+// Remove ordered lines from the client's cart (same product and variant)
+const removeFromCart = async (userId: string, lines: OrderLine[]): Promise<void> => {
+  await Cart.updateOne(
+    { idClient: userId },
+    {
+      $pull: {
+        items: { $or: lines.map((line) => ({ productId: line.productId, variantId: line.variantId ?? null })) },
+      },
+    }
+  );
+};
+
+// A promotion ran out between pricing and the order insert: the client has to confirm the new price
+const sendPromotionConflict = (res: Response, err: PromotionUnavailableError): void => {
+  res.status(409).json({
+    success: false,
+    message: `${err.message}. No order has been created.`,
+    promotion: err.promotionName,
+  });
+};
+
+// Create one order per supplier from a single cart (all-or-nothing)
+export const createCheckout = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    // paymentMethod applies to every supplier unless overridden in paymentMethods[supplierId];
+    // coupons are supplier specific and given in couponCodes[supplierId]
+    const { products, paymentMethod, paymentMethods, couponCodes } = req.body;
+
+    if (!products || !Array.isArray(products) || products.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Products array is required and must not be empty",
+      });
+      return;
+    }
+
+    // Verify user is a client
+    const user = await User.findById(userId);
+    if (!user || user.role !== "client") {
+      res.status(403).json({
+        success: false,
+        message: "Only clients can create orders",
+      });
+      return;
+    }
+
+    // Validate products and group them by supplier
+    const itemsBySupplier = new Map<string, OrderLine[]>();
+
+    for (const item of products) {
+      if (!item.id || !item.quantity || item.quantity < 1) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid product data",
+        });
+        return;
+      }
+
+      const product = await Product.findById(item.id);
+      if (!product) {
+        res.status(404).json({
+          success: false,
+          message: `Product ${item.id} not found`,
+        });
+        return;
+      }
+
+      if (!product.supplierId) {
+        res.status(400).json({
+          success: false,
+          message: `No supplier found for product ${product.name}`,
+        });
+        return;
+      }
+
+      const supplierId = product.supplierId.toString();
+      if (!itemsBySupplier.has(supplierId)) {
+        itemsBySupplier.set(supplierId, []);
+      }
+      const orderLine = buildOrderLine(product, item.variantId, item.quantity);
+      if ("error" in orderLine) {
+        res.status(400).json({
+          success: false,
+          message: orderLine.error,
+        });
+        return;
+      }
+      itemsBySupplier.get(supplierId)!.push(orderLine.line);
+    }
+
+    // Validate the payment method chosen for each supplier before touching stock
+    const paymentBySupplier = new Map<string, { method: PaymentMethod; rip: string | null }>();
+    const suppliers = await User.find({ _id: { $in: Array.from(itemsBySupplier.keys()) } });
+    for (const supplierId of itemsBySupplier.keys()) {
+      const supplier = suppliers.find((s) => s._id.toString() === supplierId);
+      if (!supplier) {
+        res.status(404).json({
+          success: false,
+          message: `Supplier ${supplierId} not found`,
+        });
+        return;
+      }
+
+      const payment = resolvePaymentMethod(supplier, paymentMethods?.[supplierId] ?? paymentMethod);
+      if ("error" in payment) {
+        res.status(400).json({
+          success: false,
+          message: payment.error,
+          supplierId,
+        });
+        return;
+      }
+      paymentBySupplier.set(supplierId, payment);
+    }
+
+    // Apply each supplier's running promotions and coupon
+    const pricingBySupplier = new Map<string, OrderPricing<OrderLine>>();
+    for (const [supplierId, items] of itemsBySupplier) {
+      const couponCode = couponCodes?.[supplierId];
+      const pricing = await applyPromotions(
+        supplierId,
+        userId,
+        items,
+        typeof couponCode === "string" && couponCode ? couponCode : undefined
+      );
+      if ("error" in pricing) {
+        res.status(400).json({
+          success: false,
+          message: pricing.error,
+          supplierId,
+        });
+        return;
+      }
+      pricingBySupplier.set(supplierId, pricing);
+    }
+
+    const checkoutId = new mongoose.Types.ObjectId().toString();
+    let createdOrders: Array<{ order: ICommande; notification: INotification; supplierId: string }> = [];
+
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        // The callback may be retried on transient errors, so start from a clean slate
+        createdOrders = [];
+
+        for (const [supplierId, items] of itemsBySupplier) {
+          // A shortage on any supplier's items aborts the whole checkout
+          const reservations = await reserveStock(items, session);
+
+          const pricing = pricingBySupplier.get(supplierId)!;
+          await claimPromotions(pricing.promotions, userId, session);
+          const total = pricing.total;
+
+          const [order] = await Commande.create(
+            [
+              {
+                total,
+                subtotal: pricing.subtotal,
+                discount: pricing.discount,
+                promotions: pricing.promotions,
+                products: pricing.products.map((line, i) => ({ ...line, lots: reservations[i].lots })),
+                idBuyer: userId,
+                idSupplier: supplierId,
+                status: "en cours",
+                statusHistory: [statusChange(null, "en cours", userId, "client")],
+                paymentMethod: paymentBySupplier.get(supplierId)!.method,
+                checkoutId,
+              },
+            ],
+            { session }
+          );
+          await recordMovements(
+            orderMovementEntries(
+              "sale",
+              supplierId,
+              order.products,
+              reservations.map((r) => r.quantityAfter),
+              { id: userId, role: "client" },
+              { orderId: order._id }
+            ),
+            session
+          );
+
+          const [notification] = await Notification.create(
+            [
+              {
+                idSender: userId,
+                idReceiver: supplierId,
+                type: "new_order",
+                message: `Nouvelle commande de ${user.firstName} ${user.lastName} - ${items.length} produit(s) - Total: ${total.toFixed(2)} DA`,
+                isRead: false,
+              },
+            ],
+            { session }
+          );
+
+          createdOrders.push({ order, notification, supplierId });
+        }
+      });
+    } catch (err: unknown) {
+      if (err instanceof InsufficientStockError) {
+        sendStockConflict(res, err);
+        return;
+      }
+      if (err instanceof PromotionUnavailableError) {
+        sendPromotionConflict(res, err);
+        return;
+      }
+      throw err;
+    } finally {
+      await session.endSession();
+    }
+
+    // Ordered products leave the client's saved cart
+    await removeFromCart(userId, Array.from(itemsBySupplier.values()).flat());
+
+    // Alert suppliers about products that reached their low-stock threshold (in the background)
+    itemsBySupplier.forEach((items, supplierId) => notifyLowStock(supplierId, items));
+
+    // Send Socket.io notification to each supplier once everything is committed
+    if (io) {
+      createdOrders.forEach(({ order, notification, supplierId }) => {
+        io.to(`supplier_${supplierId}`).emit("newOrder", {
+          orderId: order._id.toString(),
+          checkoutId,
+          total: order.total,
+          buyerName: `${user.firstName} ${user.lastName}`,
+          productsCount: order.products.length,
+          createdAt: order.createdAt,
+          notificationId: notification._id.toString(),
+        });
+      });
+    }
+
+    const populatedOrders = await Commande.find({ checkoutId })
+      .populate("idBuyer", "firstName lastName email")
+      .populate("idSupplier", "firstName lastName email")
+      .sort({ createdAt: 1 });
+
+    res.status(201).json({
+      success: true,
+      message: `Checkout completed: ${populatedOrders.length} order(s) created`,
+      data: {
+        checkoutId,
+        orders: populatedOrders.map((order) => {
+          const payment = paymentBySupplier.get(order.idSupplier._id.toString())!;
+          return {
+            ...order.toJSON(),
+            payment: paymentInstructions(payment.method, payment.rip),
+          };
+        }),
+        total: populatedOrders.reduce((sum, order) => sum + order.total, 0),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Checkout error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+const PAYMENT_STATUSES = ["unpaid", "partially_paid", "paid"];
+
+// Get orders for a client (?paymentStatus=unpaid|partially_paid|paid)
 export const getClientOrders = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = req.userId;
@@ -196,7 +562,12 @@ export const getClientOrders = async (req: AuthRequest, res: Response): Promise<
       return;
     }
 
-    const orders = await Commande.find({ idBuyer: userId })
+    const filter: QueryFilter<ICommande> = { idBuyer: userId };
+    if (typeof req.query.paymentStatus === "string" && PAYMENT_STATUSES.includes(req.query.paymentStatus)) {
+      filter.paymentStatus = req.query.paymentStatus;
+    }
+
+    const orders = await Commande.find(filter)
       .populate("idSupplier", "firstName lastName email phone")
       .sort({ createdAt: -1 });
 
@@ -215,7 +586,7 @@ export const getClientOrders = async (req: AuthRequest, res: Response): Promise<
   }
 };
 
-// Get orders for a supplier
+// Get orders for a supplier (?paymentStatus=unpaid|partially_paid|paid)
 export const getSupplierOrders = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = req.userId;
@@ -227,7 +598,12 @@ export const getSupplierOrders = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    const orders = await Commande.find({ idSupplier: userId })
+    const filter: QueryFilter<ICommande> = { idSupplier: userId };
+    if (typeof req.query.paymentStatus === "string" && PAYMENT_STATUSES.includes(req.query.paymentStatus)) {
+      filter.paymentStatus = req.query.paymentStatus;
+    }
+
+    const orders = await Commande.find(filter)
       .populate("idBuyer", "firstName lastName email phone")
       .sort({ createdAt: -1 });
 
@@ -264,6 +640,9 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
       .populate("idSupplier", "firstName lastName email")
       .sort({ createdAt: -1 });
 
+    // Cancelled and refused orders gave their stock back: they only count in ordersByStatus
+    const activeOrders = orders.filter((order) => order.status !== "cancelled" && order.status !== "refused");
+
     // Calculate revenue over time (last 6 months)
     const now = new Date();
     const sixMonthsAgo = new Date(now.getTime() - 6 * 30 * 24 * 60 * 60 * 1000);
@@ -275,7 +654,7 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
       monthlyRevenue[monthKey] = 0;
     }
 
-    orders.forEach(order => {
+    activeOrders.forEach(order => {
       const orderDate = new Date(order.createdAt);
       if (orderDate >= sixMonthsAgo) {
         const monthKey = `${orderDate.getFullYear()}-${String(orderDate.getMonth() + 1).padStart(2, '0')}`;
@@ -288,7 +667,7 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
     // Best selling products (by quantity sold)
     const productSales: { [key: string]: { name: string; quantity: number; revenue: number; orders: number } } = {};
     
-    orders.forEach(order => {
+    activeOrders.forEach(order => {
       order.products.forEach(product => {
         if (!productSales[product.productId.toString()]) {
           productSales[product.productId.toString()] = {
@@ -299,7 +678,7 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
           };
         }
         productSales[product.productId.toString()].quantity += product.quantity;
-        productSales[product.productId.toString()].revenue += product.price * product.quantity;
+        productSales[product.productId.toString()].revenue += product.price * product.quantity - (product.discount || 0);
         productSales[product.productId.toString()].orders += 1;
       });
     });
@@ -316,7 +695,7 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
       productsCount: number;
     } } = {};
 
-    orders.forEach(order => {
+    activeOrders.forEach(order => {
       if (!order.idBuyer) return;
       const buyerId = order.idBuyer.toString();
       if (!customerStats[buyerId]) {
@@ -341,6 +720,8 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
       "en cours": orders.filter(o => o.status === "en cours").length,
       "on route": orders.filter(o => o.status === "on route").length,
       "arrived": orders.filter(o => o.status === "arrived").length,
+      "cancelled": orders.filter(o => o.status === "cancelled").length,
+      "refused": orders.filter(o => o.status === "refused").length,
     };
 
     // Revenue by status
@@ -379,7 +760,7 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
       dailyRevenue[dayKey] = 0;
     }
 
-    orders.forEach(order => {
+    activeOrders.forEach(order => {
       const orderDate = new Date(order.createdAt);
       // Check if order is in the target month
       if (orderDate >= firstDay && orderDate <= lastDay) {
@@ -390,9 +771,10 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
       }
     });
 
-    // Total statistics
-    const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0);
-    const totalProductsSold = orders.reduce((sum, order) => {
+    // Total statistics (order totals are net of promotions; totalDiscount is what promotions cost)
+    const totalRevenue = activeOrders.reduce((sum, order) => sum + order.total, 0);
+    const totalDiscount = activeOrders.reduce((sum, order) => sum + (order.discount || 0), 0);
+    const totalProductsSold = activeOrders.reduce((sum, order) => {
       return sum + order.products.reduce((productSum, product) => productSum + product.quantity, 0);
     }, 0);
     const uniqueClients = new Set(orders.map(order => order.idBuyer?.toString()).filter(Boolean)).size;
@@ -402,14 +784,14 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
     const previousMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
     const previousMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
     
-    const currentMonthRevenue = orders
+    const currentMonthRevenue = activeOrders
       .filter(order => {
         const orderDate = new Date(order.createdAt);
         return orderDate >= currentMonthStart && orderDate < now;
       })
       .reduce((sum, order) => sum + order.total, 0);
     
-    const previousMonthRevenue = orders
+    const previousMonthRevenue = activeOrders
       .filter(order => {
         const orderDate = new Date(order.createdAt);
         return orderDate >= previousMonthStart && orderDate <= previousMonthEnd;
@@ -428,12 +810,12 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
 
     // Revenue comparison by product category (if available)
     const revenueByProduct: { [key: string]: number } = {};
-    orders.forEach(order => {
+    activeOrders.forEach(order => {
       order.products.forEach(product => {
         if (!revenueByProduct[product.name]) {
           revenueByProduct[product.name] = 0;
         }
-        revenueByProduct[product.name] += product.price * product.quantity;
+        revenueByProduct[product.name] += product.price * product.quantity - (product.discount || 0);
       });
     });
 
@@ -446,6 +828,7 @@ export const getSupplierDetailedStatistics = async (req: AuthRequest, res: Respo
       success: true,
       data: {
         totalRevenue,
+        totalDiscount,
         totalProductsSold,
         totalOrders: orders.length,
         totalClients: uniqueClients,
@@ -496,11 +879,14 @@ export const getSupplierStatistics = async (req: AuthRequest, res: Response): Pr
     const orders = await Commande.find({ idSupplier: userId })
       .populate("idBuyer", "firstName lastName email");
 
+    // Revenue and sales leave out cancelled and refused orders
+    const activeOrders = orders.filter((order) => order.status !== "cancelled" && order.status !== "refused");
+
     // Calculate statistics
-    const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0);
+    const totalRevenue = activeOrders.reduce((sum, order) => sum + order.total, 0);
     
-    // Count total products sold (sum of all quantities in all orders)
-    const totalProductsSold = orders.reduce((sum, order) => {
+    // Count total products sold (sum of all quantities in active orders)
+    const totalProductsSold = activeOrders.reduce((sum, order) => {
       return sum + order.products.reduce((productSum, product) => productSum + product.quantity, 0);
     }, 0);
 
@@ -513,6 +899,8 @@ export const getSupplierStatistics = async (req: AuthRequest, res: Response): Pr
       "en cours": orders.filter(o => o.status === "en cours").length,
       "on route": orders.filter(o => o.status === "on route").length,
       "arrived": orders.filter(o => o.status === "arrived").length,
+      "cancelled": orders.filter(o => o.status === "cancelled").length,
+      "refused": orders.filter(o => o.status === "refused").length,
     };
 
     // Get recent orders (last 5)
@@ -578,7 +966,15 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
     }
 
     const { orderId } = req.params;
-    const { status } = req.body;
+    const { status, note, cashCollected } = req.body;
+
+    if (note !== undefined && (typeof note !== "string" || note.trim().length > 500)) {
+      res.status(400).json({
+        success: false,
+        message: "Note must be a string of at most 500 characters",
+      });
+      return;
+    }
 
     if (!status || !["en cours", "on route", "arrived"].includes(status)) {
       res.status(400).json({
@@ -629,10 +1025,45 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
       });
       return;
     }
+    if (currentStatus === "cancelled" || currentStatus === "refused") {
+      res.status(400).json({
+        success: false,
+        message: `Order has been ${currentStatus} and cannot be changed`,
+      });
+      return;
+    }
 
-    const oldStatus = order.status;
-    order.status = status as "en cours" | "on route" | "arrived";
-    await order.save();
+    const update: Record<string, unknown> = { status };
+
+    // Cash on delivery: the supplier confirms the cash was collected when marking the order arrived
+    if (status === "arrived" && order.paymentMethod === "cash") {
+      if (cashCollected !== true) {
+        res.status(400).json({
+          success: false,
+          message: "Cash on delivery orders require cashCollected: true to be marked as arrived",
+        });
+        return;
+      }
+      update.amountPaid = order.total;
+      update.paymentStatus = "paid";
+    }
+
+    // Conditional on the status checked above so a concurrent cancel or refuse (which restored the stock) wins
+    const updatedOrder = await Commande.findOneAndUpdate(
+      { _id: order._id, status: currentStatus },
+      {
+        $set: update,
+        $push: { statusHistory: statusChange(currentStatus, status as CommandeStatus, userId, "supplier", note?.trim()) },
+      },
+      { new: true }
+    );
+    if (!updatedOrder) {
+      res.status(409).json({
+        success: false,
+        message: "Order status changed in the meantime, reload the order and try again",
+      });
+      return;
+    }
 
     // Create notification for the buyer
     const statusMessages: { [key: string]: string } = {
@@ -644,7 +1075,7 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
 
     const notification = new Notification({
       idSender: userId,
-      idReceiver: order.idBuyer,
+      idReceiver: updatedOrder.idBuyer,
       type: "order_status",
       message: message,
       isRead: false,
@@ -654,8 +1085,8 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
 
     // Send Socket.io notification to client
     if (io) {
-      io.to(`client_${order.idBuyer.toString()}`).emit("orderStatusUpdate", {
-        orderId: order._id.toString(),
+      io.to(`client_${updatedOrder.idBuyer.toString()}`).emit("orderStatusUpdate", {
+        orderId: updatedOrder._id.toString(),
         status: status,
         message: message,
         notificationId: notification._id.toString(),
@@ -665,7 +1096,7 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
     res.status(200).json({
       success: true,
       message: "Order status updated successfully",
-      data: order,
+      data: updatedOrder,
     });
   } catch (err: unknown) {
     console.error("Update order status error:", err);
@@ -676,3 +1107,448 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
   }
 };
 
+
+// Move an "en cours" order to a closed status and give its products back to stock.
+// Returns null if the order left "en cours" in the meantime.
+const closeOrderAndRestoreStock = async (
+  orderId: string,
+  update: { status: "cancelled" | "refused"; statusReason?: string },
+  changedBy: string,
+  changedByRole: string
+) => {
+  const session = await mongoose.startSession();
+  try {
+    return await session.withTransaction(async () => {
+      // Conditional on the current status so a concurrent status update cannot slip in between
+      const closedOrder = await Commande.findOneAndUpdate(
+        { _id: orderId, status: "en cours" },
+        {
+          $set: update,
+          $push: {
+            statusHistory: statusChange("en cours", update.status, changedBy, changedByRole, update.statusReason),
+          },
+        },
+        { new: true, session }
+      );
+      if (closedOrder) {
+        const quantitiesAfter = await restoreStock(closedOrder.products, session);
+        // Refused orders are recorded as cancellations too; the linked order tells them apart
+        await recordMovements(
+          orderMovementEntries(
+            "cancellation",
+            closedOrder.idSupplier,
+            closedOrder.products,
+            quantitiesAfter,
+            { id: changedBy, role: changedByRole },
+            { orderId: closedOrder._id }
+          ),
+          session
+        );
+        await releasePromotions(closedOrder.promotions || [], session);
+      }
+      return closedOrder;
+    });
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Cancel an order (buyer only, while it is still "en cours")
+export const cancelOrder = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { orderId } = req.params;
+
+    const order = await Commande.findById(orderId);
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        message: "Order not found",
+      });
+      return;
+    }
+
+    // Verify user is the buyer of this order
+    if (order.idBuyer.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the buyer can cancel this order",
+      });
+      return;
+    }
+
+    const cancelledOrder =
+      order.status === "en cours"
+        ? await closeOrderAndRestoreStock(orderId, { status: "cancelled" }, userId, "client")
+        : null;
+
+    if (!cancelledOrder) {
+      res.status(400).json({
+        success: false,
+        message: "Only orders with status 'en cours' can be cancelled",
+      });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    const message = `Commande annulée par ${user ? `${user.firstName} ${user.lastName}` : "le client"}`;
+
+    const notification = new Notification({
+      idSender: userId,
+      idReceiver: cancelledOrder.idSupplier,
+      type: "order_status",
+      message: message,
+      isRead: false,
+    });
+
+    await notification.save();
+
+    // Send Socket.io notification to supplier
+    if (io) {
+      io.to(`supplier_${cancelledOrder.idSupplier.toString()}`).emit("orderStatusUpdate", {
+        orderId: cancelledOrder._id.toString(),
+        status: "cancelled",
+        message: message,
+        notificationId: notification._id.toString(),
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Order cancelled successfully",
+      data: cancelledOrder,
+    });
+  } catch (err: unknown) {
+    console.error("Cancel order error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Refuse an order with a reason (supplier only, while it is still "en cours")
+export const refuseOrder = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { orderId } = req.params;
+    const { reason } = req.body;
+
+    if (!reason || typeof reason !== "string" || reason.trim().length < 3 || reason.trim().length > 500) {
+      res.status(400).json({
+        success: false,
+        message: "A refusal reason between 3 and 500 characters is required",
+      });
+      return;
+    }
+
+    const order = await Commande.findById(orderId);
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        message: "Order not found",
+      });
+      return;
+    }
+
+    // Verify user is the supplier for this order
+    if (order.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the supplier can refuse this order",
+      });
+      return;
+    }
+
+    const refusedOrder =
+      order.status === "en cours"
+        ? await closeOrderAndRestoreStock(orderId, { status: "refused", statusReason: reason.trim() }, userId, "supplier")
+        : null;
+
+    if (!refusedOrder) {
+      res.status(400).json({
+        success: false,
+        message: "Only orders with status 'en cours' can be refused",
+      });
+      return;
+    }
+
+    const message = `Votre commande a été refusée par le fournisseur. Motif : ${reason.trim()}`;
+
+    const notification = new Notification({
+      idSender: userId,
+      idReceiver: refusedOrder.idBuyer,
+      type: "order_status",
+      message: message,
+      isRead: false,
+    });
+
+    await notification.save();
+
+    // Send Socket.io notification to client
+    if (io) {
+      io.to(`client_${refusedOrder.idBuyer.toString()}`).emit("orderStatusUpdate", {
+        orderId: refusedOrder._id.toString(),
+        status: "refused",
+        reason: reason.trim(),
+        message: message,
+        notificationId: notification._id.toString(),
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Order refused successfully",
+      data: refusedOrder,
+    });
+  } catch (err: unknown) {
+    console.error("Refuse order error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get the status timeline of an order (buyer, supplier or admin)
+export const getOrderTimeline = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { orderId } = req.params;
+
+    const order = await Commande.findById(orderId)
+      .populate("statusHistory.changedBy", "firstName lastName role");
+    if (!order) {
+      res.status(404).json({
+        success: false,
+        message: "Order not found",
+      });
+      return;
+    }
+
+    // Verify user is a party to this order or an admin
+    if (
+      req.userRole !== "admin" &&
+      order.idBuyer.toString() !== userId &&
+      order.idSupplier.toString() !== userId
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "You can only view the timeline of your own orders",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        orderId: order._id,
+        status: order.status,
+        statusReason: order.statusReason,
+        createdAt: order.createdAt,
+        timeline: order.statusHistory.map((entry: any) => ({
+          from: entry.from,
+          to: entry.to,
+          changedBy: entry.changedBy
+            ? {
+                id: entry.changedBy._id,
+                name: `${entry.changedBy.firstName} ${entry.changedBy.lastName}`,
+                role: entry.changedByRole,
+              }
+            : null,
+          note: entry.note || null,
+          changedAt: entry.changedAt,
+        })),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get order timeline error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+const DOCUMENT_PREFIXES = {
+  invoice: "FAC",
+  delivery_note: "BL",
+} as const;
+
+// Return the order's document number, assigning the supplier's next one on first use.
+// Counter increment and assignment share a transaction so a number is never lost or reused.
+const ensureDocumentNumber = async (
+  orderId: string,
+  type: "invoice" | "delivery_note"
+): Promise<string> => {
+  const field = type === "invoice" ? "invoiceNumber" : "deliveryNoteNumber";
+  let number = "";
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const order = await Commande.findById(orderId).session(session);
+      if (!order) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      if (order[field]) {
+        number = order[field]!;
+        return;
+      }
+
+      const counter = await DocumentCounter.findOneAndUpdate(
+        { supplierId: order.idSupplier, type },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true, session }
+      );
+      number = `${DOCUMENT_PREFIXES[type]}-${String(counter.seq).padStart(6, "0")}`;
+
+      order[field] = number;
+      await order.save({ session });
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return number;
+};
+
+// Stream the invoice or delivery note of an order (buyer or supplier)
+const sendOrderDocument = async (
+  req: AuthRequest,
+  res: Response,
+  type: "invoice" | "delivery_note"
+): Promise<void> => {
+  const userId = req.userId;
+  if (!userId) {
+    res.status(401).json({
+      success: false,
+      message: "Unauthorized",
+    });
+    return;
+  }
+
+  const { orderId } = req.params;
+
+  const order = await Commande.findById(orderId);
+  if (!order) {
+    res.status(404).json({
+      success: false,
+      message: "Order not found",
+    });
+    return;
+  }
+
+  if (order.idBuyer.toString() !== userId && order.idSupplier.toString() !== userId) {
+    res.status(403).json({
+      success: false,
+      message: "You can only download documents for your own orders",
+    });
+    return;
+  }
+
+  if (order.status === "cancelled" || order.status === "refused") {
+    res.status(400).json({
+      success: false,
+      message: `No document is issued for ${order.status} orders`,
+    });
+    return;
+  }
+
+  const [supplier, buyer] = await Promise.all([
+    User.findById(order.idSupplier),
+    User.findById(order.idBuyer),
+  ]);
+  if (!supplier || !buyer) {
+    res.status(404).json({
+      success: false,
+      message: "Supplier or buyer not found",
+    });
+    return;
+  }
+
+  const number = await ensureDocumentNumber(orderId, type);
+
+  const data = {
+    number,
+    orderId: order._id.toString(),
+    orderDate: order.createdAt,
+    supplier: {
+      name: `${supplier.firstName} ${supplier.lastName}`,
+      address: supplier.address,
+      phone: supplier.phone,
+      email: supplier.email,
+      rip_bank: supplier.rip_bank,
+      rip_post: supplier.rip_post,
+    },
+    buyer: {
+      name: `${buyer.firstName} ${buyer.lastName}`,
+      address: buyer.address,
+      phone: buyer.phone,
+      email: buyer.email,
+    },
+    lines: order.products.map((p) => ({ name: p.name, quantity: p.quantity, price: p.price, discount: p.discount, lots: p.lots })),
+    subtotal: order.subtotal ?? order.total + (order.discount || 0),
+    discount: order.discount || 0,
+    promotions: (order.promotions || []).map((p) => ({ name: p.name, code: p.code, amount: p.amount })),
+    total: order.total,
+  };
+
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${number}.pdf"`);
+  if (type === "invoice") {
+    writeInvoicePdf(data, res);
+  } else {
+    writeDeliveryNotePdf(data, res);
+  }
+};
+
+// Download the invoice (facture) of an order
+export const getOrderInvoice = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await sendOrderDocument(req, res, "invoice");
+  } catch (err: unknown) {
+    console.error("Get order invoice error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Download the delivery note (bon de livraison) of an order
+export const getOrderDeliveryNote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await sendOrderDocument(req, res, "delivery_note");
+  } catch (err: unknown) {
+    console.error("Get order delivery note error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
@@ -1,9 +1,15 @@
 import { Router } from "express";
 import {
   createOrder,
+  createCheckout,
   getClientOrders,
   getSupplierOrders,
   updateOrderStatus,
+  cancelOrder,
+  refuseOrder,
+  getOrderTimeline,
+  getOrderInvoice,
+  getOrderDeliveryNote,
   getSupplierStatistics,
   getSupplierDetailedStatistics,
 } from "./Commande.controller";
@@ -19,6 +25,9 @@ router.use(authenticateToken);
 // Create order (clients only)
 router.post("/", requireClient, createOrder);
 
+// Checkout a multi-supplier cart: one order per supplier (clients only)
+router.post("/checkout", requireClient, createCheckout);
+
 // Get client orders
 router.get("/client", requireClient, getClientOrders);
 
@@ -34,5 +43,18 @@ router.get("/supplier/statistics/detailed", requireSupplier, getSupplierDetailed
 // Update order status (suppliers only)
 router.put("/:orderId/status", requireSupplier, updateOrderStatus);
 
+// Cancel an order still "en cours" (clients only)
+router.put("/:orderId/cancel", requireClient, cancelOrder);
+
+// Refuse an order still "en cours" with a reason (suppliers only)
+router.put("/:orderId/refuse", requireSupplier, refuseOrder);
+
+// Get order status timeline (buyer, supplier or admin)
+router.get("/:orderId/timeline", getOrderTimeline);
+
+// Download invoice / delivery note PDF (buyer or supplier)
+router.get("/:orderId/invoice", getOrderInvoice);
+router.get("/:orderId/delivery-note", getOrderDeliveryNote);
+
 export default router;
 
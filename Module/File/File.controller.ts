@@ -0,0 +1,223 @@
+import { Request, Response } from "express";
+import path from "path";
+import mongoose from "mongoose";
+import User from "../../entity/User";
+import Papier from "../../entity/Papier";
+import Payment from "../../entity/Payment";
+import Commande from "../../entity/Commande";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { getStorage, storageKey, verifyFileSignature, isPrivateKey } from "../../utils/storage.service";
+import { PAPER_DOCUMENTS, PaperDocument, paymentPath } from "../../utils/fileStore.service";
+
+// Presigned links are only used for an immediate redirect
+const PRESIGNED_TTL = 60;
+
+// Send a stored file with Range, ETag and Last-Modified support: files on disk through res.sendFile,
+// others through a redirect to a short presigned link (S3 handles ranges itself). Answers 404 when it is missing.
+const sendStoredFile = async (
+  res: Response,
+  key: string,
+  options: { cacheControl: string; filename?: string }
+): Promise<void> => {
+  const storage = getStorage();
+
+  if (!storage.filePath) {
+    res.setHeader("Cache-Control", "private, no-store");
+    res.redirect(302, await storage.presignedUrl!(key, PRESIGNED_TTL, options));
+    return;
+  }
+
+  const headers: { [name: string]: string } = {
+    "Cache-Control": options.cacheControl,
+    "X-Content-Type-Options": "nosniff",
+  };
+  if (options.filename) {
+    headers["Content-Disposition"] = `inline; filename="${options.filename}"`;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    res.sendFile(storage.filePath!(key), { headers, cacheControl: false }, (err?: Error & { status?: number }) => {
+      if (!err || res.headersSent) {
+        resolve();
+      } else if (err.status === 404) {
+        res.status(404).json({
+          success: false,
+          message: "File not found",
+        });
+        resolve();
+      } else {
+        reject(err);
+      }
+    });
+  });
+};
+
+// Storage key of a stored path, or null when it is invalid
+const keyOf = (storedPath: string): string | null => {
+  try {
+    return storageKey(storedPath);
+  } catch {
+    return null;
+  }
+};
+
+const isAdmin = async (userId: string): Promise<boolean> => {
+  const user = await User.findById(userId).select("role");
+  return Boolean(user && user.role === "admin");
+};
+
+// Serve a stored file from a signed link (GET /api/files/<key>?expires=&signature=)
+export const serveFile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const key = keyOf(req.params[0] || "");
+    if (!key) {
+      res.status(404).json({
+        success: false,
+        message: "File not found",
+      });
+      return;
+    }
+
+    if (!verifyFileSignature(key, req.query.expires, req.query.signature)) {
+      res.status(403).json({
+        success: false,
+        message: "Invalid or expired file link",
+      });
+      return;
+    }
+
+    await sendStoredFile(res, key, { cacheControl: isPrivateKey(key) ? "private, no-store" : "private, max-age=300" });
+  } catch (err: unknown) {
+    console.error("Serve file error:", err);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+};
+
+// Download an identity/company document (its owner or an admin)
+export const downloadPaperDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { papierId, document } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(papierId) || !PAPER_DOCUMENTS.includes(document as PaperDocument)) {
+      res.status(404).json({
+        success: false,
+        message: "Document not found",
+      });
+      return;
+    }
+
+    const papier = await Papier.findById(papierId);
+    if (!papier) {
+      res.status(404).json({
+        success: false,
+        message: "Document not found",
+      });
+      return;
+    }
+
+    if (papier.id_user.toString() !== userId && !(await isAdmin(userId))) {
+      res.status(403).json({
+        success: false,
+        message: "You can only download your own documents",
+      });
+      return;
+    }
+
+    const storedPath = papier[document as PaperDocument];
+    const key = storedPath ? keyOf(storedPath) : null;
+    if (!key) {
+      res.status(404).json({
+        success: false,
+        message: "Document not found",
+      });
+      return;
+    }
+
+    await sendStoredFile(res, key, { cacheControl: "private, no-store", filename: `${document}${path.extname(key)}` });
+  } catch (err: unknown) {
+    console.error("Download paper document error:", err);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+};
+
+// Download a payment proof (the buyer who sent it, the order's supplier or an admin)
+export const downloadPaymentProof = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { paymentId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(paymentId)) {
+      res.status(404).json({
+        success: false,
+        message: "Payment not found",
+      });
+      return;
+    }
+
+    const payment = await Payment.findById(paymentId);
+    if (!payment) {
+      res.status(404).json({
+        success: false,
+        message: "Payment not found",
+      });
+      return;
+    }
+
+    const commande = await Commande.findById(payment.id_commande).select("idSupplier");
+    const allowed =
+      payment.id_owner.toString() === userId ||
+      (commande && commande.idSupplier.toString() === userId) ||
+      (await isAdmin(userId));
+    if (!allowed) {
+      res.status(403).json({
+        success: false,
+        message: "You can only download payment proofs of your own orders",
+      });
+      return;
+    }
+
+    const key = keyOf(paymentPath(payment.image));
+    if (!key) {
+      res.status(404).json({
+        success: false,
+        message: "Payment proof not found",
+      });
+      return;
+    }
+
+    await sendStoredFile(res, key, { cacheControl: "private, no-store", filename: `payment-${payment._id}${path.extname(key)}` });
+  } catch (err: unknown) {
+    console.error("Download payment proof error:", err);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+};
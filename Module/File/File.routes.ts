@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { serveFile, downloadPaperDocument, downloadPaymentProof } from "./File.controller";
+import { authenticateToken } from "../../middleware/auth.middleware";
+
+const router = Router();
+
+// Identity/company document (identity, Tax_number or commercial_register) of its owner, or for admins
+router.get("/papers/:papierId/:document", authenticateToken, downloadPaperDocument);
+
+// Payment proof, for the buyer, the order's supplier or admins
+router.get("/payments/:paymentId/proof", authenticateToken, downloadPaymentProof);
+
+// Stored uploads, through the signed links returned by the API (no authentication: the signature is the access check)
+router.get("/*", serveFile);
+
+export default router;
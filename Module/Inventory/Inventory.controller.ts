@@ -0,0 +1,212 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import InventoryMovement, { IInventoryMovement } from "../../entity/InventoryMovement";
+import Product, { IProduct } from "../../entity/Product";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { sendSpreadsheet } from "../../utils/catalogExport.service";
+
+const MOVEMENT_TYPES = ["initial", "adjustment", "import", "sale", "cancellation", "return"];
+
+// Ledger filter for one of the supplier's products, from ?type=&variantId=&from=&to=.
+// Movements stay readable after the product is deleted, so ownership is checked on the movements.
+const buildMovementFilter = async (
+  req: AuthRequest,
+  userId: string
+): Promise<{ status: number; error: string } | { filter: any; product: IProduct | null }> => {
+  const { productId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(productId)) {
+    return { status: 400, error: "Invalid product ID" };
+  }
+
+  const product = await Product.findById(productId);
+  if (product && product.supplierId.toString() !== userId) {
+    return { status: 403, error: "You can only view the inventory of your own products" };
+  }
+
+  const filter: any = { productId: new mongoose.Types.ObjectId(productId), idSupplier: new mongoose.Types.ObjectId(userId) };
+  if (!product && !(await InventoryMovement.exists(filter))) {
+    return { status: 404, error: "Product not found" };
+  }
+
+  const { type, variantId, from, to } = req.query;
+  if (type !== undefined) {
+    const types = String(type).split(",");
+    if (types.some((t) => !MOVEMENT_TYPES.includes(t))) {
+      return { status: 400, error: `type must be among: ${MOVEMENT_TYPES.join(", ")}` };
+    }
+    filter.type = { $in: types };
+  }
+  if (variantId !== undefined) {
+    if (!mongoose.Types.ObjectId.isValid(String(variantId))) {
+      return { status: 400, error: "Invalid variant ID" };
+    }
+    filter.variantId = new mongoose.Types.ObjectId(String(variantId));
+  }
+  if (from !== undefined || to !== undefined) {
+    const fromDate = from !== undefined ? new Date(String(from)) : null;
+    const toDate = to !== undefined ? new Date(String(to)) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return { status: 400, error: "from and to must be valid dates" };
+    }
+    filter.createdAt = { ...(fromDate && { $gte: fromDate }), ...(toDate && { $lte: toDate }) };
+  }
+
+  return { filter, product };
+};
+
+const toMovementResponse = (m: IInventoryMovement) => ({
+  id: m._id,
+  createdAt: m.createdAt,
+  type: m.type,
+  variantId: m.variantId,
+  name: m.name,
+  reference: m.reference,
+  delta: m.delta,
+  quantityAfter: m.quantityAfter,
+  actor: m.actor,
+  actorRole: m.actorRole,
+  orderId: m.orderId,
+  returnId: m.returnId,
+  lots: m.lots,
+  note: m.note,
+});
+
+// Inventory ledger of a product, newest first, with a reconciliation of the ledger against the current stock (supplier only)
+export const getProductMovements = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const result = await buildMovementFilter(req, userId);
+    if ("error" in result) {
+      res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+      return;
+    }
+    const { filter, product } = result;
+
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
+
+    const [movements, total, ledger] = await Promise.all([
+      InventoryMovement.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      InventoryMovement.countDocuments(filter),
+      // Whole ledger of the product, whatever the filters
+      InventoryMovement.aggregate([
+        { $match: { productId: filter.productId, idSupplier: filter.idSupplier } },
+        { $group: { _id: null, quantity: { $sum: "$delta" } } },
+      ]),
+    ]);
+
+    // Products created before the ledger existed have no "initial" movement, which shows up as a difference
+    const ledgerQuantity = ledger[0]?.quantity || 0;
+    const currentQuantity = product ? product.quantity : 0;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        product: {
+          id: filter.productId,
+          name: product ? product.name : movements[0]?.name,
+          reference: product?.reference,
+          quantity: currentQuantity,
+          deleted: !product,
+        },
+        reconciliation: {
+          ledgerQuantity,
+          currentQuantity,
+          difference: currentQuantity - ledgerQuantity,
+        },
+        movements: movements.map(toMovementResponse),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+        },
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get product movements error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Export the inventory ledger of a product as Excel (default) or CSV, oldest first, with the same filters (supplier only)
+export const exportProductMovements = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const format = req.query.format === undefined ? "xlsx" : String(req.query.format);
+    if (format !== "xlsx" && format !== "csv") {
+      res.status(400).json({
+        success: false,
+        message: "format must be 'xlsx' or 'csv'",
+      });
+      return;
+    }
+
+    const result = await buildMovementFilter(req, userId);
+    if ("error" in result) {
+      res.status(result.status).json({
+        success: false,
+        message: result.error,
+      });
+      return;
+    }
+
+    const movements = await InventoryMovement.find(result.filter).sort({ createdAt: 1, _id: 1 });
+
+    const rows = movements.map((m) => ({
+      date: m.createdAt.toISOString(),
+      type: m.type,
+      name: m.name,
+      reference: m.reference || "",
+      delta: m.delta,
+      quantityAfter: m.quantityAfter,
+      orderId: m.orderId ? m.orderId.toString() : "",
+      returnId: m.returnId ? m.returnId.toString() : "",
+      lots: m.lots.map((lot) => `${lot.lotNumber}:${lot.quantity}`).join(";"),
+      actorRole: m.actorRole,
+      actor: m.actor.toString(),
+      note: m.note || "",
+    }));
+
+    sendSpreadsheet(
+      res,
+      rows,
+      ["date", "type", "name", "reference", "delta", "quantityAfter", "orderId", "returnId", "lots", "actorRole", "actor", "note"],
+      format,
+      `inventory-${req.params.productId}`,
+      "Movements"
+    );
+  } catch (err: unknown) {
+    console.error("Export product movements error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { getProductMovements, exportProductMovements } from "./Inventory.controller";
+import { authenticateToken } from "../../middleware/auth.middleware";
+import { requireSupplier } from "../../middleware/role.middleware";
+
+const router = Router();
+
+// All routes require authentication and supplier role
+router.use(authenticateToken);
+router.use(requireSupplier);
+
+// Inventory ledger of a product (?type=&variantId=&from=&to=&page=&limit=)
+router.get("/products/:productId/movements", getProductMovements);
+
+// Export the ledger of a product (?format=xlsx|csv, same filters)
+router.get("/products/:productId/movements/export", exportProductMovements);
+
+export default router;
@@ -3,7 +3,27 @@ import mongoose from "mongoose";
 import Payment from "../../entity/Payment";
 import Commande from "../../entity/Commande";
 import User from "../../entity/User";
+import Notification from "../../entity/Notification";
 import { AuthRequest } from "../../middleware/auth.middleware";
+import {
+  getPaymentSummary,
+  reviewPaymentProof,
+  recordPaymentProof,
+  PaymentNotAllowedError,
+} from "../../utils/payment.service";
+import { paymentProofUrl } from "../../utils/fileStore.service";
+
+// Socket.io instance (will be set from index.ts)
+let io: any = null;
+export const setSocketIO = (socketIO: any) => {
+  io = socketIO;
+};
+
+// Payment with the authenticated download link of its proof image
+const withImageUrl = (payment: InstanceType<typeof Payment>) => ({
+  ...payment.toObject(),
+  imageUrl: paymentProofUrl(payment),
+});
 
 // Create payment (after uploading image)
 export const createPayment = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -30,7 +50,7 @@ export const createPayment = async (req: AuthRequest, res: Response): Promise<vo
 
     // Convert total to number
     const paymentTotal = typeof total === "string" ? parseFloat(total) : Number(total);
-    if (isNaN(paymentTotal)) {
+    if (isNaN(paymentTotal) || paymentTotal <= 0) {
       res.status(400).json({
         success: false,
         message: "Invalid total value",
@@ -65,41 +85,64 @@ export const createPayment = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // Check if payment already exists for this commande
-    const existingPayment = await Payment.findOne({ id_commande });
-    if (existingPayment) {
+    if (commande.paymentMethod === "cash") {
       res.status(400).json({
         success: false,
-        message: "Payment already exists for this commande",
+        message: "Cash on delivery orders do not need a payment proof: the supplier confirms the cash on delivery",
       });
       return;
     }
 
-    // Verify total matches commande total (with tolerance for floating point precision)
-    const commandeTotal = Number(commande.total);
-    const totalDiff = Math.abs(commandeTotal - paymentTotal);
-    if (totalDiff > 0.01) { // Allow 0.01 DA difference for floating point precision
+    if (commande.status === "cancelled" || commande.status === "refused") {
       res.status(400).json({
         success: false,
-        message: `Total does not match commande total. Commande total: ${commandeTotal} DA, Provided: ${paymentTotal} DA`,
+        message: `This commande has been ${commande.status} and cannot be paid`,
       });
       return;
     }
 
-    // Create payment
-    const payment = new Payment({
-      id_commande: commande._id,
-      id_owner: userId,
-      total: paymentTotal, // Use the converted number
-      image: file.filename, // Store the filename
+    // Orders can be paid in several instalments, but never beyond their total
+    let payment;
+    try {
+      payment = await recordPaymentProof(commande._id, userId, paymentTotal, file.filename); // Store the filename
+    } catch (err: unknown) {
+      if (err instanceof PaymentNotAllowedError) {
+        res.status(400).json({
+          success: false,
+          message: err.message,
+        });
+        return;
+      }
+      throw err;
+    }
+
+    // Ask the supplier to review the proof
+    const message = `Nouveau justificatif de paiement reçu - ${paymentTotal.toFixed(2)} DA`;
+    const notification = new Notification({
+      idSender: userId,
+      idReceiver: commande.idSupplier,
+      type: "payment",
+      message: message,
+      isRead: false,
     });
 
-    await payment.save();
+    await notification.save();
+
+    // Send Socket.io notification to supplier
+    if (io) {
+      io.to(`supplier_${commande.idSupplier.toString()}`).emit("newPayment", {
+        paymentId: payment._id.toString(),
+        orderId: commande._id.toString(),
+        total: paymentTotal,
+        message: message,
+        notificationId: notification._id.toString(),
+      });
+    }
 
     res.status(201).json({
       success: true,
       message: "Payment created successfully",
-      data: payment,
+      data: withImageUrl(payment),
     });
   } catch (err: unknown) {
     console.error("Create payment error:", err);
@@ -143,8 +186,9 @@ export const getPaymentByCommande = async (req: AuthRequest, res: Response): Pro
       return;
     }
 
-    // Get payment
+    // Get the latest payment (a commande may have several instalments or replaced proofs)
     const payment = await Payment.findOne({ id_commande: commandeId })
+      .sort({ createdAt: -1 })
       .populate("id_owner", "firstName lastName email")
       .populate("id_commande");
 
@@ -158,7 +202,7 @@ export const getPaymentByCommande = async (req: AuthRequest, res: Response): Pro
 
     res.status(200).json({
       success: true,
-      data: payment,
+      data: withImageUrl(payment),
     });
   } catch (err: unknown) {
     console.error("Get payment by commande error:", err);
@@ -169,6 +213,57 @@ export const getPaymentByCommande = async (req: AuthRequest, res: Response): Pro
   }
 };
 
+// Get every payment of a commande with its balance (buyer or supplier)
+export const getCommandePayments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { commandeId } = req.params;
+
+    const commande = await Commande.findById(commandeId);
+    if (!commande) {
+      res.status(404).json({
+        success: false,
+        message: "Commande not found",
+      });
+      return;
+    }
+
+    if (commande.idBuyer.toString() !== userId && commande.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only view payment for your own orders",
+      });
+      return;
+    }
+
+    const payments = await Payment.find({ id_commande: commandeId })
+      .populate("id_owner", "firstName lastName email")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        payments: payments.map(withImageUrl),
+        ...(await getPaymentSummary(commande._id, commande.total)),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get commande payments error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
 // Get all payments for a user (client)
 export const getUserPayments = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -187,7 +282,7 @@ export const getUserPayments = async (req: AuthRequest, res: Response): Promise<
 
     res.status(200).json({
       success: true,
-      data: payments,
+      data: payments.map(withImageUrl),
     });
   } catch (err: unknown) {
     console.error("Get user payments error:", err);
@@ -197,3 +292,169 @@ export const getUserPayments = async (req: AuthRequest, res: Response): Promise<
     });
   }
 };
+
+// Get payments received by the supplier (?status=pending|confirmed|rejected)
+export const getSupplierPayments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const commandes = await Commande.find({ idSupplier: userId }).select("_id");
+    const filter: any = { id_commande: { $in: commandes.map((c) => c._id) } };
+
+    const { status } = req.query;
+    if (typeof status === "string" && ["pending", "confirmed", "rejected"].includes(status)) {
+      filter.status = status;
+    }
+
+    const payments = await Payment.find(filter)
+      .populate("id_owner", "firstName lastName email")
+      .populate("id_commande")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: payments.map(withImageUrl),
+    });
+  } catch (err: unknown) {
+    console.error("Get supplier payments error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Confirm or reject a pending payment proof (supplier of the linked commande only)
+const reviewPayment = async (
+  req: AuthRequest,
+  res: Response,
+  decision: "confirmed" | "rejected"
+): Promise<void> => {
+  const userId = req.userId;
+  if (!userId) {
+    res.status(401).json({
+      success: false,
+      message: "Unauthorized",
+    });
+    return;
+  }
+
+  const { paymentId } = req.params;
+  const { reason } = req.body;
+
+  if (
+    decision === "rejected" &&
+    (!reason || typeof reason !== "string" || reason.trim().length < 3 || reason.trim().length > 500)
+  ) {
+    res.status(400).json({
+      success: false,
+      message: "A rejection reason between 3 and 500 characters is required",
+    });
+    return;
+  }
+
+  const existing = await Payment.findById(paymentId);
+  if (!existing) {
+    res.status(404).json({
+      success: false,
+      message: "Payment not found",
+    });
+    return;
+  }
+
+  const commande = await Commande.findById(existing.id_commande);
+  if (!commande) {
+    res.status(404).json({
+      success: false,
+      message: "Commande not found",
+    });
+    return;
+  }
+
+  if (commande.idSupplier.toString() !== userId) {
+    res.status(403).json({
+      success: false,
+      message: "Only the supplier of this commande can review its payment",
+    });
+    return;
+  }
+
+  const payment = await reviewPaymentProof(
+    paymentId,
+    decision,
+    decision === "rejected" ? reason.trim() : undefined
+  );
+  if (!payment) {
+    res.status(400).json({
+      success: false,
+      message: "Only pending payments can be reviewed",
+    });
+    return;
+  }
+
+  const message =
+    decision === "confirmed"
+      ? `Votre paiement de ${payment.total.toFixed(2)} DA a été confirmé par le fournisseur`
+      : `Votre justificatif de paiement a été refusé. Motif : ${reason.trim()}. Vous pouvez en envoyer un nouveau.`;
+
+  const notification = new Notification({
+    idSender: userId,
+    idReceiver: payment.id_owner,
+    type: "payment",
+    message: message,
+    isRead: false,
+  });
+
+  await notification.save();
+
+  // Send Socket.io notification to client
+  if (io) {
+    io.to(`client_${payment.id_owner.toString()}`).emit("paymentStatusUpdate", {
+      paymentId: payment._id.toString(),
+      orderId: commande._id.toString(),
+      status: decision,
+      ...(decision === "rejected" && { reason: reason.trim() }),
+      message: message,
+      notificationId: notification._id.toString(),
+    });
+  }
+
+  res.status(200).json({
+    success: true,
+    message: decision === "confirmed" ? "Payment confirmed successfully" : "Payment rejected successfully",
+    data: withImageUrl(payment),
+  });
+};
+
+// Confirm that the money of a payment proof arrived
+export const confirmPayment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await reviewPayment(req, res, "confirmed");
+  } catch (err: unknown) {
+    console.error("Confirm payment error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Reject a payment proof with a reason, letting the buyer upload a replacement
+export const rejectPayment = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await reviewPayment(req, res, "rejected");
+  } catch (err: unknown) {
+    console.error("Reject payment error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
@@ -4,30 +4,31 @@ import {
   createPayment,
   getPaymentByCommande,
   getUserPayments,
+  getCommandePayments,
+  getSupplierPayments,
+  confirmPayment,
+  rejectPayment,
 } from "./Payment.controller";
 import { authenticateToken } from "../../middleware/auth.middleware";
-import { requireClient } from "../../middleware/role.middleware";
+import { requireClient, requireSupplier } from "../../middleware/role.middleware";
 import {
   validateUploadedFiles,
+  discardUploadsOnError,
   ALLOWED_DOCUMENT_EXTENSIONS,
 } from "../../middleware/fileSecurity.middleware";
 import { fileUploadRateLimiter } from "../../middleware/rateLimit.middleware";
 import path from "path";
-import fs from "fs";
+import { uploadStorage } from "../../utils/storage.service";
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
-// Ensure uploads/payments directory exists
 const paymentsDir = "uploads/payments";
-if (!fs.existsSync(paymentsDir)) {
-  fs.mkdirSync(paymentsDir, { recursive: true });
-}
 
 // Configure multer for payment image uploads
-const paymentStorage = multer.diskStorage({
+const paymentStorage = uploadStorage({
   destination: (req, file, cb) => {
     cb(null, paymentsDir);
   },
@@ -64,6 +65,7 @@ router.post(
   "/",
   requireClient,
   fileUploadRateLimiter,
+  discardUploadsOnError,
   uploadPaymentMulter.single("image"),
   validateUploadedFiles(ALLOWED_DOCUMENT_EXTENSIONS, 1),
   createPayment
@@ -72,7 +74,17 @@ router.post(
 // Get payment by commande ID
 router.get("/commande/:commandeId", getPaymentByCommande);
 
+// Get all instalments of a commande with paid / pending / outstanding amounts
+router.get("/commande/:commandeId/all", getCommandePayments);
+
 // Get all payments for current user (clients only)
 router.get("/user", requireClient, getUserPayments);
 
+// Get payments received by current supplier (?status=pending|confirmed|rejected)
+router.get("/supplier", requireSupplier, getSupplierPayments);
+
+// Review a payment proof (suppliers only)
+router.put("/:paymentId/confirm", requireSupplier, confirmPayment);
+router.put("/:paymentId/reject", requireSupplier, rejectPayment);
+
 export default router;
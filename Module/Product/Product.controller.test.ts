@@ -0,0 +1,203 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Response } from "express";
+import mongoose from "mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import XLSX from "xlsx";
+import { updateProductLot, updateProductVariant, uploadProductsFromExcel } from "./Product.controller";
+import { createOrder } from "../Commande/Commande.controller";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import User from "../../entity/User";
+import Product from "../../entity/Product";
+import InventoryMovement from "../../entity/InventoryMovement";
+import { getStorage } from "../../utils/storage.service";
+
+// Orders reserve stock in a transaction, so this needs a replica set (a single in-memory node)
+let replSet: MongoMemoryReplSet;
+
+beforeAll(async () => {
+  replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: "wiredTiger" } });
+  await mongoose.connect(replSet.getUri("labo-test"));
+  // Collections are created up front: the first order must not create them inside its transaction
+  await Promise.all(mongoose.modelNames().map((name) => mongoose.model(name).createCollection()));
+}, 120_000);
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await replSet?.stop();
+});
+
+// Response stub recording the status and JSON body sent by a handler
+const mockResponse = () => {
+  const res = { statusCode: 200, body: undefined as any };
+  return Object.assign(res, {
+    status(code: number) {
+      res.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return this;
+    },
+  });
+};
+
+const createUser = (role: "client" | "supplier", email: string) =>
+  User.create({
+    firstName: role,
+    lastName: "Test",
+    email,
+    password: "hashed-password",
+    phone: "0550000000",
+    address: "Alger",
+    role,
+    laboType: "Labo médical",
+    methode_payment: role === "supplier" ? ["cash"] : [],
+  });
+
+test("lot corrections never overwrite stock taken by concurrent orders", async () => {
+  const supplier = await createUser("supplier", "supplier@test.dz");
+  const clients = await Promise.all(Array.from({ length: 6 }, (_, i) => createUser("client", `client${i}@test.dz`)));
+  const product = await Product.create({
+    name: "Réactif glucose",
+    purchasePrice: 100,
+    sellingPrice: 150,
+    quantity: 10,
+    category: "Biochimie",
+    deliveryTime: "48h",
+    brand: "Biolabo",
+    productType: "Labo médical",
+    supplierId: supplier._id,
+    lots: [{ lotNumber: "L1", expiryDate: new Date("2099-01-01"), quantity: 10 }],
+  });
+  const lotId = product.lots[0]._id.toString();
+
+  // Clients order one unit each while the supplier corrects the lot quantity three times
+  const orders = clients.map(async (client) => {
+    const req = {
+      userId: client._id.toString(),
+      body: { products: [{ id: product._id.toString(), quantity: 1 }], paymentMethod: "cash" },
+    } as AuthRequest;
+    const res = mockResponse();
+    await createOrder(req, res as unknown as Response);
+    return res;
+  });
+  const corrections = [20, 30, 40].map(async (quantity) => {
+    const req = {
+      userId: supplier._id.toString(),
+      params: { id: product._id.toString(), lotId },
+      body: { quantity },
+    } as unknown as AuthRequest;
+    const res = mockResponse();
+    await updateProductLot(req, res as unknown as Response);
+    return res;
+  });
+  const [orderResponses, correctionResponses] = await Promise.all([Promise.all(orders), Promise.all(corrections)]);
+
+  orderResponses.forEach((res) => expect([201, 409]).toContain(res.statusCode));
+  correctionResponses.forEach((res) => expect([200, 409]).toContain(res.statusCode));
+
+  // The stock is the lot total and every change that reached it is in the ledger
+  const stored = await Product.findById(product._id);
+  expect(stored!.quantity).toBe(stored!.lots[0].quantity);
+  const movements = await InventoryMovement.find({ productId: product._id });
+  const recorded = movements.reduce((sum, m) => sum + m.delta, 0);
+  expect(stored!.quantity).toBe(10 + recorded);
+  expect(movements.filter((m) => m.type === "sale").length).toBe(
+    orderResponses.filter((res) => res.statusCode === 201).length
+  );
+}, 60_000);
+
+test("variant updates never overwrite stock taken by concurrent orders", async () => {
+  const supplier = await createUser("supplier", "variant-supplier@test.dz");
+  const clients = await Promise.all(
+    Array.from({ length: 6 }, (_, i) => createUser("client", `variant-client${i}@test.dz`))
+  );
+  const product = await Product.create({
+    name: "Tubes EDTA",
+    purchasePrice: 10,
+    sellingPrice: 15,
+    quantity: 0,
+    category: "Prélèvement",
+    deliveryTime: "24h",
+    brand: "Vacutest",
+    productType: "Labo médical",
+    supplierId: supplier._id,
+    variants: [
+      { reference: "EDTA-2", label: "2 ml", purchasePrice: 10, sellingPrice: 15, quantity: 10 },
+      { reference: "EDTA-4", label: "4 ml", purchasePrice: 12, sellingPrice: 18, quantity: 10 },
+    ],
+  });
+  const variantId = product.variants[0]._id.toString();
+
+  const orders = clients.map(async (client) => {
+    const req = {
+      userId: client._id.toString(),
+      body: { products: [{ id: product._id.toString(), variantId, quantity: 1 }], paymentMethod: "cash" },
+    } as AuthRequest;
+    const res = mockResponse();
+    await createOrder(req, res as unknown as Response);
+    return res;
+  });
+  const updates = [20, 30, 40].map(async (quantity) => {
+    const req = {
+      userId: supplier._id.toString(),
+      params: { id: product._id.toString(), variantId },
+      body: { quantity },
+    } as unknown as AuthRequest;
+    const res = mockResponse();
+    await updateProductVariant(req, res as unknown as Response);
+    return res;
+  });
+  const [orderResponses, updateResponses] = await Promise.all([Promise.all(orders), Promise.all(updates)]);
+
+  orderResponses.forEach((res) => expect([201, 409]).toContain(res.statusCode));
+  updateResponses.forEach((res) => expect([200, 409]).toContain(res.statusCode));
+
+  // The product total is the sum of its variants and every change that reached the variant is in the ledger
+  const stored = await Product.findById(product._id);
+  expect(stored!.quantity).toBe(stored!.variants.reduce((sum, v) => sum + v.quantity, 0));
+  const movements = await InventoryMovement.find({ productId: product._id, variantId });
+  const recorded = movements.reduce((sum, m) => sum + m.delta, 0);
+  expect(stored!.variants[0].quantity).toBe(10 + recorded);
+  expect(stored!.variants[1].quantity).toBe(10);
+}, 60_000);
+
+test("import dry run rejects rows with a blank or non-numeric price", async () => {
+  const supplier = await createUser("supplier", "import-supplier@test.dz");
+  const row = {
+    name: "Réactif urée",
+    purchasePrice: 80,
+    sellingPrice: 120,
+    quantity: 5,
+    category: "Biochimie",
+    deliveryTime: "48h",
+    brand: "Biolabo",
+    productType: "Labo médical",
+  };
+  const worksheet = XLSX.utils.json_to_sheet([
+    { ...row, reference: "UREE-1" },
+    { ...row, reference: "UREE-2", purchasePrice: "" },
+    { ...row, reference: "UREE-3", sellingPrice: "abc" },
+    { ...row, reference: "UREE-4", sellingPrice: "120 DA" },
+  ]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Products");
+  const key = "uploads/excel/dry-run-test.xlsx";
+  await getStorage().put(key, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+
+  const req = {
+    userId: supplier._id.toString(),
+    file: { path: key, originalname: "catalog.xlsx", mimetype: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+    body: { dryRun: "true" },
+  } as unknown as AuthRequest;
+  const res = mockResponse();
+  await uploadProductsFromExcel(req, res as unknown as Response);
+
+  expect(res.statusCode).toBe(200);
+  const rows = res.body.data.rows;
+  expect(rows.map((r: { status: string }) => r.status)).toEqual(["created", "rejected", "rejected", "rejected"]);
+  expect(rows[1].errors).toEqual([{ field: "purchasePrice", message: "Purchase price is required and must be a number" }]);
+  expect(rows[2].errors).toEqual([{ field: "sellingPrice", message: "Selling price is required and must be a number" }]);
+  expect(rows[3].errors[0].field).toBe("sellingPrice");
+  expect(await Product.countDocuments({ supplierId: supplier._id })).toBe(0);
+}, 60_000);
@@ -1,8 +1,212 @@
 import { Request, Response } from "express";
-import Product from "../../entity/Product";
+import mongoose from "mongoose";
+import Product, { IProduct, IProductLot, IProductVariant } from "../../entity/Product";
 import { AuthRequest } from "../../middleware/auth.middleware";
 import XLSX from "xlsx";
-import User from "../../entity/User";
+import User, { IUser } from "../../entity/User";
+import Commande from "../../entity/Commande";
+import { parsePriceTiers, PriceTier } from "../../utils/pricing.service";
+import { buildCatalogFilter, buildSearchGrams, parseQuery, queryGrams, rankProducts } from "../../utils/search.service";
+import { stockSnapshot, stockChangeEntries, recordMovements, MovementEntry, MovementActor } from "../../utils/inventory.service";
+import { InventoryMovementType } from "../../entity/InventoryMovement";
+import { processImages, imageUrls, InvalidImageError } from "../../utils/image.service";
+import { releaseFiles } from "../../utils/fileStore.service";
+import { getStorage, signedFileUrl, optionalFileUrl } from "../../utils/storage.service";
+import {
+  CATALOG_REQUIRED_COLUMNS,
+  CATALOG_OPTIONAL_COLUMNS,
+  catalogRows,
+  sendCatalog,
+  catalogCell,
+  readCatalogWorkbook,
+} from "../../utils/catalogExport.service";
+
+// Reference and description are optional free text
+const validateOptionalText = (reference: unknown, description: unknown): string | null => {
+  if (reference !== undefined && reference !== null && (typeof reference !== "string" || reference.trim().length > 100)) {
+    return "Reference cannot exceed 100 characters";
+  }
+  if (description !== undefined && description !== null && (typeof description !== "string" || description.trim().length > 2000)) {
+    return "Description cannot exceed 2000 characters";
+  }
+  return null;
+};
+
+// Low-stock threshold from a form or Excel cell; empty clears it
+const parseLowStockThreshold = (raw: unknown): { error: string } | { threshold: number | undefined } => {
+  if (raw === undefined || raw === null || raw === "") {
+    return { threshold: undefined };
+  }
+  const threshold = Number(raw);
+  if (!Number.isInteger(threshold) || threshold < 0 || threshold > 1000000) {
+    return { error: "Low-stock threshold must be an integer between 0 and 1,000,000" };
+  }
+  return { threshold };
+};
+
+export interface VariantInput {
+  reference: string;
+  label: string;
+  packSize?: string;
+  concentration?: string;
+  purchasePrice: number;
+  sellingPrice: number;
+  quantity: number;
+}
+
+// Validate one variant (request body or Excel row)
+const parseVariant = (raw: any): { error: string } | { variant: VariantInput } => {
+  const reference = typeof raw?.reference === "string" || typeof raw?.reference === "number" ? String(raw.reference).trim() : "";
+  const label = typeof raw?.label === "string" ? raw.label.trim() : "";
+  const packSize = raw?.packSize !== undefined && raw?.packSize !== null ? String(raw.packSize).trim() : "";
+  const concentration = raw?.concentration !== undefined && raw?.concentration !== null ? String(raw.concentration).trim() : "";
+  const purchasePrice = parseFloat(raw?.purchasePrice);
+  const sellingPrice = parseFloat(raw?.sellingPrice);
+  const quantity = parseInt(raw?.quantity);
+
+  if (!reference || reference.length > 100) {
+    return { error: "Variant reference is required (max 100 characters)" };
+  }
+  if (!label || label.length > 100) {
+    return { error: `Variant ${reference}: label is required (max 100 characters)` };
+  }
+  if (packSize.length > 50 || concentration.length > 50) {
+    return { error: `Variant ${reference}: pack size and concentration cannot exceed 50 characters` };
+  }
+  if (isNaN(purchasePrice) || purchasePrice < 0 || purchasePrice > 10000000 || isNaN(sellingPrice) || sellingPrice < 0 || sellingPrice > 10000000) {
+    return { error: `Variant ${reference}: prices must be valid numbers between 0 and 10,000,000` };
+  }
+  if (sellingPrice < purchasePrice) {
+    return { error: `Variant ${reference}: selling price must be greater than or equal to purchase price` };
+  }
+  if (isNaN(quantity) || quantity < 0 || quantity > 1000000) {
+    return { error: `Variant ${reference}: quantity must be a valid integer between 0 and 1,000,000` };
+  }
+
+  return {
+    variant: {
+      reference,
+      label,
+      ...(packSize && { packSize }),
+      ...(concentration && { concentration }),
+      purchasePrice,
+      sellingPrice,
+      quantity,
+    },
+  };
+};
+
+// Validate a list of variants, sent as a JSON string with multipart forms
+const parseVariants = (raw: unknown): { error: string } | { variants: VariantInput[] } => {
+  if (raw === undefined || raw === null || raw === "") {
+    return { variants: [] };
+  }
+
+  let entries: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      entries = JSON.parse(raw);
+    } catch {
+      return { error: "Variants must be a valid JSON array" };
+    }
+  }
+  if (!Array.isArray(entries) || entries.length > 50) {
+    return { error: "Variants must be an array of at most 50 variants" };
+  }
+
+  const variants: VariantInput[] = [];
+  for (const entry of entries) {
+    const parsed = parseVariant(entry);
+    if ("error" in parsed) {
+      return parsed;
+    }
+    if (variants.some((v) => v.reference === parsed.variant.reference)) {
+      return { error: `Duplicate variant reference ${parsed.variant.reference}` };
+    }
+    variants.push(parsed.variant);
+  }
+  return { variants };
+};
+
+// Validate a stock lot. Omitted fields fall back to the current lot when one is given.
+const parseLot = (
+  raw: any,
+  current?: IProductLot
+): { error: string } | { lot: { lotNumber: string; expiryDate: Date; quantity: number } } => {
+  const lotNumber = raw?.lotNumber !== undefined ? String(raw.lotNumber).trim() : current?.lotNumber || "";
+  const expiryDate = raw?.expiryDate !== undefined ? new Date(raw.expiryDate) : current?.expiryDate;
+  const quantity = raw?.quantity !== undefined ? parseInt(raw.quantity) : current?.quantity;
+
+  if (!lotNumber || lotNumber.length > 50) {
+    return { error: "Lot number is required (max 50 characters)" };
+  }
+  if (!expiryDate || isNaN(expiryDate.getTime())) {
+    return { error: "Expiry date must be a valid date" };
+  }
+  if (quantity === undefined || isNaN(quantity) || quantity < 0 || quantity > 1000000) {
+    return { error: "Quantity must be a valid integer between 0 and 1,000,000" };
+  }
+  return { lot: { lotNumber, expiryDate, quantity } };
+};
+
+// Variants as shown to clients (no purchase price)
+const toPublicVariants = (variants: IProductVariant[] = []) =>
+  variants.map((v) => ({
+    id: v._id.toString(),
+    reference: v.reference,
+    label: v.label,
+    packSize: v.packSize,
+    concentration: v.concentration,
+    price: v.sellingPrice,
+    quantity: v.quantity,
+    images: (v.images || []).map(imageUrls),
+  }));
+
+// Variants as shown to their supplier, with signed image links
+const toSupplierVariants = (variants: IProductVariant[] = []) =>
+  variants.map((v) => ({
+    _id: v._id,
+    reference: v.reference,
+    label: v.label,
+    packSize: v.packSize,
+    concentration: v.concentration,
+    purchasePrice: v.purchasePrice,
+    sellingPrice: v.sellingPrice,
+    quantity: v.quantity,
+    images: (v.images || []).map((image) => signedFileUrl(image)),
+  }));
+
+// Save a product loaded for a stock change and record the change in the inventory ledger, in one transaction.
+// Orders write stock without loading the product, so the save fails if one did in between:
+// answers 409 and returns false in that case.
+const saveProductStock = async (
+  res: Response,
+  product: InstanceType<typeof Product>,
+  stockBefore: ReturnType<typeof stockSnapshot>,
+  type: InventoryMovementType,
+  actor: MovementActor,
+  note?: string
+): Promise<boolean> => {
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      await product.save({ session });
+      await recordMovements(stockChangeEntries(product, stockBefore, stockSnapshot(product), type, actor, note), session);
+    });
+  } catch (err: unknown) {
+    if (err instanceof mongoose.Error.VersionError) {
+      res.status(409).json({
+        success: false,
+        message: "The stock of this product changed in the meantime, reload it and try again",
+      });
+      return false;
+    }
+    throw err;
+  } finally {
+    await session.endSession();
+  }
+  return true;
+};
 
 // Create a single product
 export const createProduct = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -16,7 +220,7 @@ export const createProduct = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const { name, purchasePrice, sellingPrice, quantity, category, deliveryTime, brand, productType } = req.body;
+    const { name, purchasePrice, sellingPrice, quantity, category, deliveryTime, brand, productType, priceTiers, reference, description, variants, lowStockThreshold } = req.body;
 
     // Get uploaded files
     const images = req.files && (req.files as any).images ? (req.files as any).images : [];
@@ -31,9 +235,21 @@ export const createProduct = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const numPurchasePrice = parseFloat(purchasePrice);
-    const numSellingPrice = parseFloat(sellingPrice);
-    const numQuantity = parseInt(quantity);
+    const parsedVariants = parseVariants(variants);
+    if ("error" in parsedVariants) {
+      res.status(400).json({
+        success: false,
+        message: parsedVariants.error,
+      });
+      return;
+    }
+
+    // With variants, the product's prices and stock are derived from them
+    const productVariants = parsedVariants.variants;
+    const hasVariants = productVariants.length > 0;
+    const numPurchasePrice = hasVariants ? Math.min(...productVariants.map((v) => v.purchasePrice)) : parseFloat(purchasePrice);
+    const numSellingPrice = hasVariants ? Math.min(...productVariants.map((v) => v.sellingPrice)) : parseFloat(sellingPrice);
+    const numQuantity = hasVariants ? productVariants.reduce((sum, v) => sum + v.quantity, 0) : parseInt(quantity);
 
     if (isNaN(numPurchasePrice) || numPurchasePrice < 0 || numPurchasePrice > 10000000) {
       res.status(400).json({
@@ -99,16 +315,37 @@ export const createProduct = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // Process images
-    const imagePaths: string[] = [];
-    if (Array.isArray(images)) {
-      images.forEach((file: Express.Multer.File) => {
-        if (file.path) {
-          imagePaths.push(file.path.replace(/\\/g, "/"));
-        }
+    // Volume tiers only apply to products sold without variants
+    const parsedTiers = parsePriceTiers(hasVariants ? undefined : priceTiers, numPurchasePrice, numSellingPrice);
+    if ("error" in parsedTiers) {
+      res.status(400).json({
+        success: false,
+        message: parsedTiers.error,
+      });
+      return;
+    }
+
+    const textError = validateOptionalText(reference, description);
+    if (textError) {
+      res.status(400).json({
+        success: false,
+        message: textError,
       });
+      return;
+    }
+
+    const parsedThreshold = parseLowStockThreshold(lowStockThreshold);
+    if ("error" in parsedThreshold) {
+      res.status(400).json({
+        success: false,
+        message: parsedThreshold.error,
+      });
+      return;
     }
 
+    // Process images (EXIF stripped, resized to every size in WebP and JPEG)
+    const imagePaths = Array.isArray(images) ? await processImages(images) : [];
+
     // Process video
     let videoPath: string | undefined = undefined;
     if (video && video.path) {
@@ -118,9 +355,14 @@ export const createProduct = async (req: AuthRequest, res: Response): Promise<vo
     // Create new product with sanitized values
     const newProduct = new Product({
       name: name.trim().substring(0, 200), // Ensure max length
+      reference: reference?.trim() || undefined,
+      description: description?.trim() || undefined,
       purchasePrice: numPurchasePrice,
       sellingPrice: numSellingPrice,
+      priceTiers: parsedTiers.tiers,
       quantity: numQuantity,
+      variants: productVariants,
+      lowStockThreshold: parsedThreshold.threshold,
       category: category.trim().substring(0, 100),
       deliveryTime: deliveryTime.trim().substring(0, 100),
       brand: brand.trim().substring(0, 100),
@@ -131,6 +373,9 @@ export const createProduct = async (req: AuthRequest, res: Response): Promise<vo
     });
 
     await newProduct.save();
+    await recordMovements(
+      stockChangeEntries(newProduct, new Map(), stockSnapshot(newProduct), "initial", { id: userId, role: "supplier" })
+    );
 
     res.status(201).json({
       success: true,
@@ -138,20 +383,32 @@ export const createProduct = async (req: AuthRequest, res: Response): Promise<vo
       data: {
         id: newProduct._id,
         name: newProduct.name,
+        reference: newProduct.reference,
+        description: newProduct.description,
         purchasePrice: newProduct.purchasePrice,
         sellingPrice: newProduct.sellingPrice,
+        priceTiers: newProduct.priceTiers,
         quantity: newProduct.quantity,
+        variants: toSupplierVariants(newProduct.variants),
+        lowStockThreshold: newProduct.lowStockThreshold,
         category: newProduct.category,
         deliveryTime: newProduct.deliveryTime,
         brand: newProduct.brand,
         productType: newProduct.productType,
-        images: newProduct.images,
-        video: newProduct.video,
+        images: newProduct.images.map((image) => signedFileUrl(image)),
+        video: optionalFileUrl(newProduct.video),
         supplierId: newProduct.supplierId,
         createdAt: newProduct.createdAt,
       },
     });
   } catch (err: unknown) {
+    if (err instanceof InvalidImageError) {
+      res.status(400).json({
+        success: false,
+        message: err.message,
+      });
+      return;
+    }
     console.error("Create product error:", err);
     res.status(500).json({
       success: false,
@@ -160,12 +417,189 @@ export const createProduct = async (req: AuthRequest, res: Response): Promise<vo
   }
 };
 
-// Upload products from Excel file
+// Field-level reason a row of an Excel import was rejected
+interface ImportFieldError {
+  field: string;
+  message: string;
+}
+
+// What an Excel import did (or would do, in dry-run) with one row
+interface ImportRowReport {
+  row: number; // Excel row number, the header being row 1
+  reference?: string;
+  parentReference?: string;
+  name?: string;
+  status: "created" | "updated" | "unchanged" | "rejected";
+  productId?: mongoose.Types.ObjectId;
+  changes?: string[]; // Fields that differ from the existing product
+  warnings?: string[];
+  errors?: ImportFieldError[];
+}
+
+// One valid row of an Excel import
+interface ImportRow {
+  reference: string;
+  parentReference: string;
+  name: string;
+  description: string;
+  purchasePrice: number;
+  sellingPrice: number;
+  priceTiers: PriceTier[];
+  quantity: number;
+  lowStockThreshold?: number;
+  category: string;
+  deliveryTime: string;
+  brand: string;
+  productType: string;
+  variant?: VariantInput; // Rows with a parentReference
+}
+
+// Price cell of an Excel import: NaN when blank or not entirely a number ("12 DA" included)
+const parsePriceCell = (text: string): number => (text === "" ? NaN : Number(text));
+
+// Validate one row of an Excel import, reporting every invalid field
+const parseImportRow = (raw: any, column: (name: string) => string | undefined): { errors: ImportFieldError[] } | { row: ImportRow } => {
+  const cell = (name: string): string => {
+    const col = column(name);
+    return col ? catalogCell(raw[col]) : "";
+  };
+  const errors: ImportFieldError[] = [];
+
+  const name = cell("name");
+  const purchasePrice = parsePriceCell(cell("purchasePrice"));
+  const sellingPrice = parsePriceCell(cell("sellingPrice"));
+  const quantity = parseInt(cell("quantity"));
+  const category = cell("category");
+  const deliveryTime = cell("deliveryTime");
+  const brand = cell("brand");
+  const productType = cell("productType");
+  const reference = cell("reference");
+  const description = cell("description");
+  const parentReference = cell("parentReference");
+
+  if (!name || name.length < 2 || name.length > 200) {
+    errors.push({ field: "name", message: "Product name is required (2 to 200 characters)" });
+  }
+  if (isNaN(purchasePrice)) {
+    errors.push({ field: "purchasePrice", message: "Purchase price is required and must be a number" });
+  } else if (purchasePrice < 0 || purchasePrice > 10000000) {
+    errors.push({ field: "purchasePrice", message: "Invalid purchase price" });
+  }
+  if (isNaN(sellingPrice)) {
+    errors.push({ field: "sellingPrice", message: "Selling price is required and must be a number" });
+  } else if (sellingPrice < 0 || sellingPrice > 10000000) {
+    errors.push({ field: "sellingPrice", message: "Invalid selling price" });
+  } else if (!isNaN(purchasePrice) && sellingPrice < purchasePrice) {
+    errors.push({ field: "sellingPrice", message: "Selling price must be greater than or equal to purchase price" });
+  }
+  if (isNaN(quantity) || quantity < 0 || quantity > 1000000) {
+    errors.push({ field: "quantity", message: "Invalid quantity" });
+  }
+  if (!category) {
+    errors.push({ field: "category", message: "Category is required" });
+  }
+  if (!deliveryTime) {
+    errors.push({ field: "deliveryTime", message: "Delivery time is required" });
+  }
+  if (!brand) {
+    errors.push({ field: "brand", message: "Brand is required" });
+  }
+  if (productType !== "Labo médical" && productType !== "labo d'ana pathologies") {
+    errors.push({ field: "productType", message: "Product type must be 'Labo médical' or 'labo d'ana pathologies'" });
+  }
+  if (reference.length > 100) {
+    errors.push({ field: "reference", message: "Reference cannot exceed 100 characters" });
+  }
+  if (parentReference.length > 100) {
+    errors.push({ field: "parentReference", message: "Reference cannot exceed 100 characters" });
+  }
+  if (description.length > 2000) {
+    errors.push({ field: "description", message: "Description cannot exceed 2000 characters" });
+  }
+
+  // Optional column, "minQuantity:unitPrice" pairs separated by ";" (e.g. "10:95;50:90"). Ignored for variants.
+  const parsedTiers = parsePriceTiers(parentReference ? "" : cell("priceTiers"), purchasePrice, sellingPrice);
+  if ("error" in parsedTiers) {
+    errors.push({ field: "priceTiers", message: parsedTiers.error });
+  }
+
+  const parsedThreshold = parseLowStockThreshold(cell("lowStockThreshold"));
+  if ("error" in parsedThreshold) {
+    errors.push({ field: "lowStockThreshold", message: parsedThreshold.error });
+  }
+
+  let variant: VariantInput | undefined;
+  if (parentReference) {
+    const parsedVariant = parseVariant({
+      reference,
+      label: cell("variantLabel"),
+      packSize: cell("packSize"),
+      concentration: cell("concentration"),
+      purchasePrice,
+      sellingPrice,
+      quantity,
+    });
+    if ("error" in parsedVariant) {
+      errors.push({ field: reference ? "variantLabel" : "reference", message: parsedVariant.error });
+    } else {
+      variant = parsedVariant.variant;
+    }
+  }
+
+  if (errors.length > 0 || "error" in parsedTiers || "error" in parsedThreshold) {
+    return { errors };
+  }
+
+  return {
+    row: {
+      reference,
+      parentReference,
+      name,
+      description,
+      purchasePrice,
+      sellingPrice,
+      priceTiers: parsedTiers.tiers,
+      quantity,
+      lowStockThreshold: parsedThreshold.threshold,
+      category,
+      deliveryTime,
+      brand,
+      productType,
+      variant,
+    },
+  };
+};
+
+// Set a product field from an import row, noting it in changes when it differs
+const setImportedField = (target: any, field: string, value: unknown, changes: string[], label: string = field): void => {
+  const normalize = (v: unknown) =>
+    Array.isArray(v) ? JSON.stringify(v.map((t: PriceTier) => [t.minQuantity, t.unitPrice])) : v === null || v === "" ? undefined : v;
+  if (normalize(target[field]) !== normalize(value)) {
+    target[field] = value === "" ? undefined : value;
+    changes.push(label);
+  }
+};
+
+// The catalog export writes the id of products without a reference in the reference column: such values
+// only ever match an existing product, they never become the reference of a new one
+const isProductIdReference = (reference: string): boolean => /^[0-9a-f]{24}$/i.test(reference);
+
+// Import products from Excel (supplier only). Rows whose reference matches one of the supplier's products update it,
+// other rows create products. With dryRun=true nothing is saved; with zeroMissing=true the supplier's referenced
+// products missing from the file are set to zero stock. The response reports what happened to every row.
 export const uploadProductsFromExcel = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = req.userId;
     const file = req.file;
 
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
     if (!file) {
       res.status(400).json({
         success: false,
@@ -179,18 +613,24 @@ export const uploadProductsFromExcel = async (req: AuthRequest, res: Response):
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", // .xlsx
       "application/vnd.ms-excel", // .xls
       "application/vnd.ms-excel.sheet.macroEnabled.12", // .xlsm
+      "text/csv", // .csv
     ];
 
-    if (!allowedMimeTypes.includes(file.mimetype) && !file.originalname.match(/\.(xlsx|xls)$/i)) {
+    if (!allowedMimeTypes.includes(file.mimetype) && !file.originalname.match(/\.(xlsx|xls|csv)$/i)) {
       res.status(400).json({
         success: false,
-        message: "Invalid file type. Only Excel files (.xlsx, .xls) are allowed",
+        message: "Invalid file type. Only Excel or CSV files (.xlsx, .xls, .csv) are allowed",
       });
       return;
     }
 
-    // Read Excel file
-    const workbook = XLSX.readFile(file.path);
+    // Options arrive as multipart form fields
+    const dryRun = req.body?.dryRun === true || req.body?.dryRun === "true";
+    const zeroMissing = req.body?.zeroMissing === true || req.body?.zeroMissing === "true";
+
+    // Read Excel or CSV file
+    const workbook = readCatalogWorkbook(await getStorage().read(file.path), file.originalname);
+    await getStorage().remove(file.path); // Imported files are not kept
     const sheetName = workbook.SheetNames[0];
     const worksheet = workbook.Sheets[sheetName];
     const data = XLSX.utils.sheet_to_json(worksheet);
@@ -203,156 +643,377 @@ export const uploadProductsFromExcel = async (req: AuthRequest, res: Response):
       return;
     }
 
-    // Expected columns: name, purchasePrice, sellingPrice, quantity, category, deliveryTime, brand, productType
-    const requiredColumns = ["name", "purchasePrice", "sellingPrice", "quantity", "category", "deliveryTime", "brand", "productType"];
-    const firstRow = data[0] as any;
-    const columns = Object.keys(firstRow);
-
-    // Check if all required columns exist (case-insensitive)
-    const columnMap: { [key: string]: string } = {};
-    requiredColumns.forEach((reqCol) => {
-      const foundCol = columns.find((col) => col.toLowerCase().trim() === reqCol.toLowerCase().trim());
-      if (foundCol) {
-        columnMap[reqCol] = foundCol;
-      }
-    });
+    // Columns are matched case-insensitively
+    const columns = Object.keys(data[0] as any);
+    const column = (name: string) => columns.find((col) => col.toLowerCase().trim() === name.toLowerCase());
 
-    const missingColumns = requiredColumns.filter((col) => !columnMap[col]);
+    const missingColumns = CATALOG_REQUIRED_COLUMNS.filter((col) => !column(col));
     if (missingColumns.length > 0) {
       res.status(400).json({
         success: false,
         message: `Missing required columns: ${missingColumns.join(", ")}`,
-        expectedColumns: requiredColumns,
+        expectedColumns: CATALOG_REQUIRED_COLUMNS,
+        optionalColumns: CATALOG_OPTIONAL_COLUMNS,
       });
       return;
     }
 
-    // Process and validate each row
-    const products: any[] = [];
-    const errors: string[] = [];
+    const parsedRows = data.map((raw: any) => parseImportRow(raw, column));
 
-    data.forEach((row: any, index: number) => {
-      const rowNum = index + 2; // +2 because index starts at 0 and Excel rows start at 2 (after header)
+    // Products of the supplier the file refers to, rejected rows included so zeroMissing never zeroes them
+    const fileReferences = new Set<string>();
+    data.forEach((raw: any) => {
+      ["parentReference", "reference"].forEach((name) => {
+        const col = column(name);
+        const value = col ? catalogCell(raw[col]) : "";
+        if (value) fileReferences.add(value);
+      });
+    });
+    const existingProducts = await Product.find({ supplierId: userId, reference: { $in: Array.from(fileReferences) } }).sort({
+      createdAt: 1,
+    });
+    const existingByReference = new Map<string, IProduct>();
+    existingProducts.forEach((p) => {
+      if (!existingByReference.has(p.reference!)) existingByReference.set(p.reference!, p);
+    });
 
-      try {
-        const name = String(row[columnMap.name] || "").trim();
-        const purchasePrice = parseFloat(row[columnMap.purchasePrice] || row[columnMap.price] || 0); // Support old "price" column
-        const sellingPrice = parseFloat(row[columnMap.sellingPrice] || 0);
-        const quantity = parseInt(row[columnMap.quantity]);
-        const category = String(row[columnMap.category] || "").trim();
-        const deliveryTime = String(row[columnMap.deliveryTime] || "").trim();
-        const brand = String(row[columnMap.brand] || "").trim();
-        const productType = String(row[columnMap.productType] || "").trim();
-
-        // Validation
-        if (!name || name.length < 2) {
-          errors.push(`Row ${rowNum}: Product name is required and must be at least 2 characters`);
-          return;
-        }
+    // Products without a reference, exported with their id
+    const idReferences = Array.from(fileReferences).filter((ref) => isProductIdReference(ref) && !existingByReference.has(ref));
+    if (idReferences.length > 0) {
+      const unreferenced = await Product.find({ supplierId: userId, _id: { $in: idReferences }, reference: { $in: [null, ""] } });
+      unreferenced.forEach((p) => existingByReference.set(p._id.toString(), p));
+    }
 
-        if (isNaN(purchasePrice) || purchasePrice < 0) {
-          errors.push(`Row ${rowNum}: Invalid purchase price`);
-          return;
-        }
+    // Products created or updated by the file, with their stock before the import for the ledger
+    const touched: Array<{
+      product: IProduct;
+      stockBefore: ReturnType<typeof stockSnapshot>;
+      variantGroup: boolean;
+      rows: ImportRowReport[];
+    }> = [];
+    const touchedByReference = new Map<string, (typeof touched)[number]>();
+    const reports: ImportRowReport[] = [];
+
+    const touch = (product: IProduct, variantGroup: boolean, reference?: string) => {
+      const entry = { product, stockBefore: stockSnapshot(product.isNew ? null : product), variantGroup, rows: [] as ImportRowReport[] };
+      touched.push(entry);
+      if (reference) touchedByReference.set(reference, entry);
+      return entry;
+    };
+
+    parsedRows.forEach((parsed, index) => {
+      const rowNum = index + 2; // +2 because index starts at 0 and Excel rows start at 2 (after header)
 
-        if (isNaN(sellingPrice) || sellingPrice < 0) {
-          errors.push(`Row ${rowNum}: Invalid selling price`);
-          return;
-        }
+      if ("errors" in parsed) {
+        const raw = data[index] as any;
+        const referenceColumn = column("reference");
+        reports.push({
+          row: rowNum,
+          ...(referenceColumn && raw[referenceColumn] !== undefined && { reference: catalogCell(raw[referenceColumn]) }),
+          status: "rejected",
+          errors: parsed.errors,
+        });
+        return;
+      }
 
-        if (sellingPrice < purchasePrice) {
-          errors.push(`Row ${rowNum}: Selling price must be greater than or equal to purchase price`);
+      const row = parsed.row;
+      const report: ImportRowReport = {
+        row: rowNum,
+        ...(row.reference && { reference: row.reference }),
+        ...(row.parentReference && { parentReference: row.parentReference }),
+        name: row.name,
+        status: "unchanged",
+      };
+      reports.push(report);
+      const reject = (field: string, message: string) => {
+        report.status = "rejected";
+        report.errors = [{ field, message }];
+      };
+
+      // Product details shared by simple products and the first row of a variant group
+      const productFields = (product: IProduct, changes: string[]) => {
+        setImportedField(product, "name", row.name, changes);
+        setImportedField(product, "description", row.description, changes);
+        setImportedField(product, "lowStockThreshold", row.lowStockThreshold, changes);
+        setImportedField(product, "category", row.category, changes);
+        setImportedField(product, "deliveryTime", row.deliveryTime, changes);
+        setImportedField(product, "brand", row.brand, changes);
+        setImportedField(product, "productType", row.productType, changes);
+      };
+
+      if (row.parentReference) {
+        let entry = touchedByReference.get(row.parentReference);
+        if (!entry) {
+          const existing = existingByReference.get(row.parentReference);
+          if (!existing && isProductIdReference(row.parentReference)) {
+            reject("parentReference", `No product without reference has the id ${row.parentReference}`);
+            return;
+          }
+          if (existing && existing.variants.length === 0) {
+            reject("parentReference", `Product ${row.parentReference} exists and is not sold by variant`);
+            return;
+          }
+          const changes: string[] = [];
+          const product =
+            existing ||
+            new Product({
+              reference: row.parentReference,
+              variants: [],
+              images: [],
+              supplierId: userId,
+            });
+          productFields(product, changes);
+          entry = touch(product, true, row.parentReference);
+          if (existing && changes.length > 0) {
+            report.changes = changes;
+          }
+        } else if (!entry.variantGroup) {
+          reject("parentReference", `Reference ${row.parentReference} is already used by another row of the file`);
           return;
         }
 
-        if (isNaN(quantity) || quantity < 0) {
-          errors.push(`Row ${rowNum}: Invalid quantity`);
+        const product = entry.product;
+        const variantInput = row.variant!;
+        if (entry.rows.some((r) => r.reference === variantInput.reference)) {
+          reject("reference", `Duplicate variant reference ${variantInput.reference} for product ${row.parentReference}`);
           return;
         }
 
-        if (!category) {
-          errors.push(`Row ${rowNum}: Category is required`);
-          return;
+        const variant = product.variants.find((v) => v.reference === variantInput.reference);
+        if (variant) {
+          const changes = report.changes || [];
+          setImportedField(variant, "label", variantInput.label, changes, "variantLabel");
+          setImportedField(variant, "packSize", variantInput.packSize, changes);
+          setImportedField(variant, "concentration", variantInput.concentration, changes);
+          setImportedField(variant, "purchasePrice", variantInput.purchasePrice, changes);
+          setImportedField(variant, "sellingPrice", variantInput.sellingPrice, changes);
+          // Lot-tracked stock is the total of its lots
+          if (product.lots.some((lot) => lot.variantId?.toString() === variant._id.toString())) {
+            if (variant.quantity !== variantInput.quantity) {
+              report.warnings = ["Quantity ignored: this variant's stock is managed by lot"];
+            }
+          } else {
+            setImportedField(variant, "quantity", variantInput.quantity, changes);
+          }
+          if (changes.length > 0) {
+            report.changes = changes;
+            report.status = "updated";
+            product.markModified("variants");
+          }
+        } else {
+          if (product.variants.length >= 50) {
+            reject("parentReference", `Product ${row.parentReference} cannot have more than 50 variants`);
+            return;
+          }
+          product.variants.push({ ...variantInput, images: [] } as unknown as IProductVariant);
+          report.status = "created";
         }
-
-        if (!deliveryTime) {
-          errors.push(`Row ${rowNum}: Delivery time is required`);
-          return;
+        if (report.status === "unchanged" && report.changes) {
+          report.status = "updated";
         }
 
-        if (!brand) {
-          errors.push(`Row ${rowNum}: Brand is required`);
-          return;
-        }
+        report.productId = product._id;
+        entry.rows.push(report);
+        return;
+      }
 
-        if (productType !== "Labo médical" && productType !== "labo d'ana pathologies") {
-          errors.push(`Row ${rowNum}: Product type must be 'Labo médical' or 'labo d'ana pathologies'`);
-          return;
-        }
+      if (row.reference && touchedByReference.has(row.reference)) {
+        reject("reference", `Reference ${row.reference} is already used by another row of the file`);
+        return;
+      }
+
+      const existing = row.reference ? existingByReference.get(row.reference) : undefined;
+      if (!existing && row.reference && isProductIdReference(row.reference)) {
+        reject("reference", `No product without reference has the id ${row.reference}`);
+        return;
+      }
+      if (existing && existing.variants.length > 0) {
+        reject("reference", `Product ${row.reference} is sold by variant; import it with parentReference rows`);
+        return;
+      }
 
-        products.push({
-          name,
-          purchasePrice,
-          sellingPrice,
-          quantity,
-          category,
-          deliveryTime,
-          brand,
-          productType,
+      const product =
+        existing ||
+        new Product({
+          reference: row.reference || undefined,
           images: [],
-          video: undefined,
           supplierId: userId,
         });
-      } catch (error) {
-        errors.push(`Row ${rowNum}: Error processing row - ${error instanceof Error ? error.message : "Unknown error"}`);
+      const changes: string[] = [];
+      productFields(product, changes);
+      setImportedField(product, "purchasePrice", row.purchasePrice, changes);
+      setImportedField(product, "sellingPrice", row.sellingPrice, changes);
+      setImportedField(product, "priceTiers", row.priceTiers, changes);
+      if (existing && existing.lots.length > 0) {
+        if (existing.quantity !== row.quantity) {
+          report.warnings = ["Quantity ignored: this product's stock is managed by lot"];
+        }
+      } else {
+        setImportedField(product, "quantity", row.quantity, changes);
+      }
+
+      const entry = touch(product, false, row.reference || undefined);
+      entry.rows.push(report);
+      report.productId = product._id;
+      if (!existing) {
+        report.status = "created";
+      } else if (changes.length > 0) {
+        report.status = "updated";
+        report.changes = changes;
       }
     });
 
-    if (errors.length > 0 && products.length === 0) {
+    // Schema validation of every product, reported on its rows
+    for (const entry of touched) {
+      try {
+        await entry.product.validate();
+      } catch (validationErr: any) {
+        const errors: ImportFieldError[] = Object.entries(validationErr?.errors || {}).map(([field, e]: [string, any]) => ({
+          field,
+          message: e.message,
+        }));
+        entry.rows.forEach((r) => {
+          r.status = "rejected";
+          r.errors = errors.length > 0 ? errors : [{ field: "product", message: "Invalid product" }];
+          delete r.changes;
+        });
+      }
+    }
+    const valid = touched.filter((entry) => entry.rows.some((r) => r.status !== "rejected"));
+
+    // Referenced products of the supplier that the file does not mention
+    const zeroed: Array<{ productId: mongoose.Types.ObjectId; reference?: string; name: string; previousQuantity: number }> = [];
+    const zeroedProducts: Array<{ product: IProduct; stockBefore: ReturnType<typeof stockSnapshot> }> = [];
+    if (zeroMissing) {
+      const missing = await Product.find({
+        supplierId: userId,
+        reference: { $nin: [...Array.from(fileReferences), null, ""] },
+        quantity: { $gt: 0 },
+      });
+      missing.forEach((product) => {
+        zeroed.push({ productId: product._id, reference: product.reference, name: product.name, previousQuantity: product.quantity });
+        const stockBefore = stockSnapshot(product);
+        product.quantity = 0;
+        product.variants.forEach((v) => {
+          v.quantity = 0;
+        });
+        product.lots.forEach((lot) => {
+          lot.quantity = 0;
+        });
+        product.markModified("variants");
+        product.markModified("lots");
+        zeroedProducts.push({ product, stockBefore });
+      });
+    }
+
+    const count = (status: ImportRowReport["status"]) => reports.filter((r) => r.status === status).length;
+    const summary = {
+      total: data.length,
+      created: count("created"),
+      updated: count("updated"),
+      unchanged: count("unchanged"),
+      rejected: count("rejected"),
+      zeroed: zeroed.length,
+    };
+
+    if (summary.rejected === summary.total) {
       res.status(400).json({
         success: false,
         message: "All rows have errors",
-        errors,
+        data: { dryRun, summary, rows: reports },
       });
       return;
     }
 
-    // Insert products into database
-    if (products.length > 0) {
-      const insertedProducts = await Product.insertMany(products);
-
-      res.status(201).json({
+    if (dryRun) {
+      res.status(200).json({
         success: true,
-        message: `Successfully imported ${insertedProducts.length} product(s)`,
-        data: {
-          imported: insertedProducts.length,
-          total: data.length,
-          errors: errors.length,
-          products: insertedProducts.map((p) => ({
-            id: p._id,
-            name: p.name,
-            purchasePrice: p.purchasePrice,
-            sellingPrice: p.sellingPrice,
-            quantity: p.quantity,
-            category: p.category,
-            deliveryTime: p.deliveryTime,
-            brand: p.brand,
-            productType: p.productType,
-            images: p.images,
-            video: p.video,
-          })),
-        },
-        ...(errors.length > 0 && { errorDetails: errors }),
+        message: "Dry run: no changes were saved",
+        data: { dryRun, summary, rows: reports, zeroed },
       });
-    } else {
+      return;
+    }
+
+    // Save the products and record their stock changes in the inventory ledger
+    const actor = { id: userId, role: "supplier" };
+    const movements: MovementEntry[] = [];
+    for (const entry of valid) {
+      if (!entry.product.isNew && !entry.product.isModified()) continue;
+      await entry.product.save();
+      movements.push(...stockChangeEntries(entry.product, entry.stockBefore, stockSnapshot(entry.product), "import", actor, file.originalname));
+    }
+    for (const { product, stockBefore } of zeroedProducts) {
+      await product.save();
+      movements.push(
+        ...stockChangeEntries(product, stockBefore, stockSnapshot(product), "import", actor, `Missing from ${file.originalname}`)
+      );
+    }
+    await recordMovements(movements);
+
+    res.status(summary.created > 0 ? 201 : 200).json({
+      success: true,
+      message: `Import completed: ${summary.created} created, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.rejected} rejected`,
+      data: {
+        dryRun,
+        imported: summary.created + summary.updated,
+        summary,
+        rows: reports,
+        zeroed,
+        products: valid.map(({ product: p }) => ({
+          id: p._id,
+          name: p.name,
+          reference: p.reference,
+          description: p.description,
+          purchasePrice: p.purchasePrice,
+          sellingPrice: p.sellingPrice,
+          priceTiers: p.priceTiers,
+          quantity: p.quantity,
+          variants: toSupplierVariants(p.variants),
+          lowStockThreshold: p.lowStockThreshold,
+          category: p.category,
+          deliveryTime: p.deliveryTime,
+          brand: p.brand,
+          productType: p.productType,
+          images: p.images.map((image) => signedFileUrl(image)),
+          video: optionalFileUrl(p.video),
+        })),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Upload products from Excel error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Export the supplier's catalog as Excel (default) or CSV in the import layout, so it can be edited and re-imported
+export const exportSupplierCatalog = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const format = req.query.format === undefined ? "xlsx" : String(req.query.format);
+    if (format !== "xlsx" && format !== "csv") {
       res.status(400).json({
         success: false,
-        message: "No valid products to import",
-        errors,
+        message: "format must be 'xlsx' or 'csv'",
       });
+      return;
     }
+
+    const products = await Product.find({ supplierId: userId }).sort({ createdAt: 1 });
+
+    sendCatalog(res, catalogRows(products), format, `catalog-${new Date().toISOString().slice(0, 10)}`);
   } catch (err: unknown) {
-    console.error("Upload products from Excel error:", err);
+    console.error("Export supplier catalog error:", err);
     res.status(500).json({
       success: false,
       message: "Internal server error",
@@ -373,15 +1034,21 @@ export const getSupplierProducts = async (req: AuthRequest, res: Response): Prom
         products: products.map((p) => ({
           id: p._id,
           name: p.name,
+          reference: p.reference,
+          description: p.description,
           purchasePrice: p.purchasePrice,
           sellingPrice: p.sellingPrice,
+          priceTiers: p.priceTiers,
           quantity: p.quantity,
+          variants: toSupplierVariants(p.variants),
+          lots: p.lots,
+          lowStockThreshold: p.lowStockThreshold,
           category: p.category,
           deliveryTime: p.deliveryTime,
           brand: p.brand,
           productType: p.productType,
-          images: p.images,
-          video: p.video,
+          images: p.images.map((image) => signedFileUrl(image)),
+          video: optionalFileUrl(p.video),
           createdAt: p.createdAt,
           updatedAt: p.updatedAt,
         })),
@@ -397,51 +1064,114 @@ export const getSupplierProducts = async (req: AuthRequest, res: Response): Prom
   }
 };
 
+const CATALOG_SORTS: { [key: string]: { [field: string]: 1 | -1 } } = {
+  stock: { quantity: -1, createdAt: -1 }, // In stock first, then newest (default)
+  newest: { createdAt: -1 },
+  price_asc: { sellingPrice: 1, createdAt: -1 },
+  price_desc: { sellingPrice: -1, createdAt: -1 },
+  name_asc: { name: 1 },
+  name_desc: { name: -1 },
+};
+
+// Supplier fields shown with catalog products
+const CATALOG_SUPPLIER_FIELDS = "firstName lastName email phone address";
+
+type CatalogSupplier = Pick<IUser, "_id" | "firstName" | "lastName" | "email" | "phone" | "address">;
+
+// Catalog view of a product populated with its supplier
+const toPublicProduct = (p: Omit<IProduct, "supplierId"> & { supplierId: CatalogSupplier | null }) => ({
+  id: p._id.toString(),
+  name: p.name,
+  reference: p.reference,
+  description: p.description,
+  price: p.sellingPrice, // Show selling price to clients
+  priceTiers: p.priceTiers || [],
+  quantity: p.quantity,
+  variants: toPublicVariants(p.variants),
+  category: p.category,
+  deliveryTime: p.deliveryTime,
+  brand: p.brand,
+  productType: p.productType,
+  images: (p.images || []).map(imageUrls),
+  video: optionalFileUrl(p.video),
+  supplier: p.supplierId
+    ? {
+        id: p.supplierId._id.toString(),
+        name: `${p.supplierId.firstName} ${p.supplierId.lastName}`,
+        email: p.supplierId.email,
+        phone: p.supplierId.phone,
+        address: p.supplierId.address,
+      }
+    : null,
+  createdAt: p.createdAt,
+  updatedAt: p.updatedAt,
+});
+
+// Count products per value of a field, most frequent first
+const countByField = async (filter: any, field: "category" | "brand") => {
+  const buckets = await Product.aggregate([
+    { $match: filter },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+  ]);
+  return buckets.map((b) => ({ value: b._id, count: b.count }));
+};
+
 // Get all products (public - for clients)
+// Query: page, limit, category, brand, productType, minPrice, maxPrice, inStock, supplierId,
+// sort (stock | newest | price_asc | price_desc | name_asc | name_desc)
 export const getAllProducts = async (req: Request & { userRole?: string; userLaboType?: string }, res: Response): Promise<void> => {
   try {
-    // Build query - filter by laboType if user is a client
-    let query: any = {};
-    
     // If user is authenticated and is a client, filter by their laboType
-    if (req.userRole === "client" && req.userLaboType) {
-      query.productType = req.userLaboType;
-    }
-    
-    // Get all products (including out of stock, but prioritize in-stock)
-    const products = await Product.find(query)
-      .populate("supplierId", "firstName lastName email phone address")
-      .sort({ quantity: -1, createdAt: -1 }); // Sort by quantity (in stock first), then by date
+    const laboType = req.userRole === "client" && req.userLaboType ? req.userLaboType : undefined;
 
-    console.log(`Found ${products.length} products in database${req.userRole === "client" && req.userLaboType ? ` (filtered by laboType: ${req.userLaboType})` : ""}`); // Debug log
+    const built = buildCatalogFilter(req.query, laboType);
+    if ("error" in built) {
+      res.status(400).json({
+        success: false,
+        message: built.error,
+      });
+      return;
+    }
+    const categoryFilter = buildCatalogFilter(req.query, laboType, "category") as { filter: any };
+    const brandFilter = buildCatalogFilter(req.query, laboType, "brand") as { filter: any };
+
+    const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit)) || 24));
+    const sortKey = typeof req.query.sort === "string" && CATALOG_SORTS[req.query.sort] ? req.query.sort : "stock";
+
+    const [products, total, categories, brands, priceRange] = await Promise.all([
+      Product.find(built.filter)
+        .populate<{ supplierId: CatalogSupplier | null }>("supplierId", CATALOG_SUPPLIER_FIELDS)
+        .sort({ ...CATALOG_SORTS[sortKey], _id: -1 }) // _id keeps the order stable across pages
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Product.countDocuments(built.filter),
+      countByField(categoryFilter.filter, "category"),
+      countByField(brandFilter.filter, "brand"),
+      Product.aggregate([
+        { $match: built.filter },
+        { $group: { _id: null, min: { $min: "$sellingPrice" }, max: { $max: "$sellingPrice" } } },
+      ]),
+    ]);
 
     res.status(200).json({
       success: true,
       data: {
-        products: products.map((p: any) => ({
-          id: p._id.toString(),
-          name: p.name,
-          price: p.sellingPrice, // Show selling price to clients
-          quantity: p.quantity,
-          category: p.category,
-          deliveryTime: p.deliveryTime,
-          brand: p.brand,
-          productType: p.productType,
-          images: p.images || [],
-          video: p.video || null,
-          supplier: p.supplierId
-            ? {
-                id: p.supplierId._id.toString(),
-                name: `${p.supplierId.firstName} ${p.supplierId.lastName}`,
-                email: p.supplierId.email,
-                phone: p.supplierId.phone,
-                address: p.supplierId.address,
-              }
-            : null,
-          createdAt: p.createdAt,
-          updatedAt: p.updatedAt,
-        })),
-        total: products.length,
+        products: products.map(toPublicProduct),
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNextPage: page * limit < total,
+        },
+        sort: sortKey,
+        facets: {
+          categories,
+          brands,
+          priceRange: priceRange[0] ? { min: priceRange[0].min, max: priceRange[0].max } : null,
+        },
       },
     });
   } catch (err: unknown) {
@@ -453,65 +1183,133 @@ export const getAllProducts = async (req: Request & { userRole?: string; userLab
   }
 };
 
-// Get single product by ID (public - for clients)
-export const getProductById = async (req: Request & { userRole?: string; userLaboType?: string }, res: Response): Promise<void> => {
-  try {
-    const { id } = req.params;
-
-    const product = await Product.findById(id).populate("supplierId", "firstName lastName email phone address");
+// Maximum number of candidates ranked per search
+const SEARCH_CANDIDATES = 500;
 
-    if (!product) {
-      res.status(404).json({
+// Search the public catalog by relevance (public - for clients)
+// Query: q, page, limit and the same filters as getAllProducts
+export const searchProducts = async (req: Request & { userRole?: string; userLaboType?: string }, res: Response): Promise<void> => {
+  try {
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const tokens = parseQuery(q);
+    if (q.length < 2 || q.length > 100 || tokens.length === 0) {
+      res.status(400).json({
         success: false,
-        message: "Product not found",
+        message: "Search query (q) must be between 2 and 100 characters",
       });
       return;
     }
 
-    // If user is authenticated and is a client, check if product matches their laboType
-    if (req.userRole === "client" && req.userLaboType) {
-      if (product.productType !== req.userLaboType) {
-        res.status(403).json({
-          success: false,
-          message: "Ce produit n'est pas disponible pour votre type de laboratoire",
-        });
-        return;
-      }
-    }
-
-    if (product.quantity === 0) {
-      res.status(404).json({
+    // Same laboType restriction as the catalog
+    const laboType = req.userRole === "client" && req.userLaboType ? req.userLaboType : undefined;
+    const built = buildCatalogFilter(req.query, laboType);
+    if ("error" in built) {
+      res.status(400).json({
         success: false,
-        message: "Product is out of stock",
+        message: built.error,
       });
       return;
     }
 
+    // Candidates share trigrams with the query; the most overlapping ones are ranked in memory
+    const grams = queryGrams(tokens);
+    const candidates = await Product.aggregate([
+      { $match: { ...built.filter, searchGrams: { $in: grams } } },
+      { $addFields: { overlap: { $size: { $setIntersection: ["$searchGrams", grams] } } } },
+      { $sort: { overlap: -1, quantity: -1, _id: 1 } }, // _id keeps ties in the same order between requests
+      { $limit: SEARCH_CANDIDATES },
+      { $project: { name: 1, reference: 1, description: 1, brand: 1, category: 1, "variants.reference": 1, "variants.label": 1 } },
+    ]);
+    const ranked = rankProducts(q, candidates);
+
+    const page = Math.max(1, parseInt(String(req.query.page)) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit)) || 24));
+    const pageResults = ranked.slice((page - 1) * limit, page * limit);
+
+    const products = await Product.find({ _id: { $in: pageResults.map((r) => r.product._id) } })
+      .populate<{ supplierId: CatalogSupplier | null }>("supplierId", CATALOG_SUPPLIER_FIELDS);
+
     res.status(200).json({
       success: true,
       data: {
-        id: product._id,
-        name: product.name,
-        price: product.sellingPrice, // Show selling price to clients
-        quantity: product.quantity,
-        category: product.category,
-        deliveryTime: product.deliveryTime,
-        brand: product.brand,
-        productType: product.productType,
-        images: product.images,
-        video: product.video,
-        supplier: (product as any).supplierId
-          ? {
-              id: (product as any).supplierId._id,
-              name: `${(product as any).supplierId.firstName} ${(product as any).supplierId.lastName}`,
-              email: (product as any).supplierId.email,
-              phone: (product as any).supplierId.phone,
-              address: (product as any).supplierId.address,
-            }
-          : null,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
+        products: pageResults
+          .map((result) => {
+            const product = products.find((p) => p._id.toString() === result.product._id.toString());
+            return product ? { ...toPublicProduct(product), score: result.score } : null;
+          })
+          .filter(Boolean),
+        total: ranked.length,
+        pagination: {
+          page,
+          limit,
+          totalPages: Math.ceil(ranked.length / limit),
+          hasNextPage: page * limit < ranked.length,
+        },
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Search products error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Fill searchGrams for products saved before catalog search existed (run at startup)
+export const backfillProductSearchGrams = async (): Promise<void> => {
+  const products = await Product.find({ $or: [{ searchGrams: { $exists: false } }, { searchGrams: { $size: 0 } }] })
+    .select("name reference description brand category variants.reference variants.label");
+  if (products.length === 0) return;
+
+  await Product.bulkWrite(
+    products.map((p) => ({
+      updateOne: {
+        filter: { _id: p._id },
+        update: { $set: { searchGrams: buildSearchGrams(p) } },
       },
+    }))
+  );
+  console.log(`Search index built for ${products.length} product(s)`);
+};
+
+// Get single product by ID (public - for clients)
+export const getProductById = async (req: Request & { userRole?: string; userLaboType?: string }, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const product = await Product.findById(id).populate<{ supplierId: CatalogSupplier | null }>("supplierId", CATALOG_SUPPLIER_FIELDS);
+
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+      return;
+    }
+
+    // If user is authenticated and is a client, check if product matches their laboType
+    if (req.userRole === "client" && req.userLaboType) {
+      if (product.productType !== req.userLaboType) {
+        res.status(403).json({
+          success: false,
+          message: "Ce produit n'est pas disponible pour votre type de laboratoire",
+        });
+        return;
+      }
+    }
+
+    if (product.quantity === 0) {
+      res.status(404).json({
+        success: false,
+        message: "Product is out of stock",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toPublicProduct(product),
     });
   } catch (err: unknown) {
     console.error("Get product by ID error:", err);
@@ -535,7 +1333,9 @@ export const updateProduct = async (req: AuthRequest, res: Response): Promise<vo
     }
 
     const { id } = req.params;
-    const { name, purchasePrice, sellingPrice, quantity, category, deliveryTime, brand, productType } = req.body;
+    const { name, purchasePrice, sellingPrice, quantity, category, deliveryTime, brand, productType, priceTiers, reference, description, lowStockThreshold } = req.body;
+    // Optional reason for a stock adjustment, kept in the inventory ledger
+    const stockNote = typeof req.body.stockNote === "string" && req.body.stockNote.trim() ? req.body.stockNote.trim().substring(0, 500) : undefined;
 
     // Find the product
     const product = await Product.findById(id);
@@ -556,10 +1356,17 @@ export const updateProduct = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
+    // Stock before the change, for the inventory ledger
+    const stockBefore = stockSnapshot(product);
+
     // Get uploaded files
     const images = req.files && (req.files as any).images ? (req.files as any).images : [];
     const video = req.files && (req.files as any).video ? (req.files as any).video[0] : null;
 
+    // Prices, stock and tiers of a product with variants are derived from its variants,
+    // which are edited through /:id/variants
+    const derived = product.variants.length > 0;
+
     // Validate and update fields
     if (name !== undefined) {
       if (typeof name !== "string" || name.trim().length < 2 || name.trim().length > 200) {
@@ -572,7 +1379,21 @@ export const updateProduct = async (req: AuthRequest, res: Response): Promise<vo
       product.name = name.trim().substring(0, 200);
     }
 
-    if (purchasePrice !== undefined) {
+    if (reference !== undefined || description !== undefined) {
+      const textError = validateOptionalText(reference, description);
+      if (textError) {
+        res.status(400).json({
+          success: false,
+          message: textError,
+        });
+        return;
+      }
+      // An empty value clears the field
+      if (reference !== undefined) product.reference = reference?.trim() || undefined;
+      if (description !== undefined) product.description = description?.trim() || undefined;
+    }
+
+    if (!derived && purchasePrice !== undefined) {
       const numPurchasePrice = parseFloat(purchasePrice);
       if (isNaN(numPurchasePrice) || numPurchasePrice < 0 || numPurchasePrice > 10000000) {
         res.status(400).json({
@@ -584,7 +1405,7 @@ export const updateProduct = async (req: AuthRequest, res: Response): Promise<vo
       product.purchasePrice = numPurchasePrice;
     }
 
-    if (sellingPrice !== undefined) {
+    if (!derived && sellingPrice !== undefined) {
       const numSellingPrice = parseFloat(sellingPrice);
       if (isNaN(numSellingPrice) || numSellingPrice < 0 || numSellingPrice > 10000000) {
         res.status(400).json({
@@ -605,7 +1426,25 @@ export const updateProduct = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    if (quantity !== undefined) {
+    // Re-validate tiers whenever they or the prices they are bounded by change
+    if (!derived && (priceTiers !== undefined || purchasePrice !== undefined || sellingPrice !== undefined)) {
+      const parsedTiers = parsePriceTiers(
+        priceTiers !== undefined ? priceTiers : product.priceTiers,
+        product.purchasePrice,
+        product.sellingPrice
+      );
+      if ("error" in parsedTiers) {
+        res.status(400).json({
+          success: false,
+          message: parsedTiers.error,
+        });
+        return;
+      }
+      product.priceTiers = parsedTiers.tiers;
+    }
+
+    // Lot-tracked stock is the total of its lots, edited through /:id/lots
+    if (!derived && product.lots.length === 0 && quantity !== undefined) {
       const numQuantity = parseInt(quantity);
       if (isNaN(numQuantity) || numQuantity < 0 || numQuantity > 1000000) {
         res.status(400).json({
@@ -661,24 +1500,45 @@ export const updateProduct = async (req: AuthRequest, res: Response): Promise<vo
       product.productType = productType;
     }
 
+    if (lowStockThreshold !== undefined) {
+      const parsedThreshold = parseLowStockThreshold(lowStockThreshold);
+      if ("error" in parsedThreshold) {
+        res.status(400).json({
+          success: false,
+          message: parsedThreshold.error,
+        });
+        return;
+      }
+      product.lowStockThreshold = parsedThreshold.threshold;
+    }
+
+    // Media replaced by this update, deleted once the product is saved
+    const replacedFiles: Array<string | undefined> = [];
+
+    // Media replacing them, deleted instead if the update cannot be saved
+    const newFiles: Array<string | undefined> = [];
+
     // Process new images (if provided)
     if (Array.isArray(images) && images.length > 0) {
-      const imagePaths: string[] = [];
-      images.forEach((file: Express.Multer.File) => {
-        if (file.path) {
-          imagePaths.push(file.path.replace(/\\/g, "/"));
-        }
-      });
       // Replace existing images with new ones
-      product.images = imagePaths;
+      replacedFiles.push(...product.images);
+      product.images = await processImages(images);
+      newFiles.push(...product.images);
     }
 
     // Process new video (if provided)
     if (video && video.path) {
+      replacedFiles.push(product.video);
       product.video = video.path.replace(/\\/g, "/");
+      newFiles.push(product.video);
     }
 
-    await product.save();
+    const saved = await saveProductStock(res, product, stockBefore, "adjustment", { id: userId, role: "supplier" }, stockNote);
+    if (!saved) {
+      await releaseFiles(newFiles);
+      return;
+    }
+    await releaseFiles(replacedFiles);
 
     res.status(200).json({
       success: true,
@@ -686,21 +1546,34 @@ export const updateProduct = async (req: AuthRequest, res: Response): Promise<vo
       data: {
         id: product._id,
         name: product.name,
+        reference: product.reference,
+        description: product.description,
         purchasePrice: product.purchasePrice,
         sellingPrice: product.sellingPrice,
+        priceTiers: product.priceTiers,
         quantity: product.quantity,
+        variants: toSupplierVariants(product.variants),
+        lots: product.lots,
+        lowStockThreshold: product.lowStockThreshold,
         category: product.category,
         deliveryTime: product.deliveryTime,
         brand: product.brand,
         productType: product.productType,
-        images: product.images,
-        video: product.video,
+        images: product.images.map((image) => signedFileUrl(image)),
+        video: optionalFileUrl(product.video),
         supplierId: product.supplierId,
         createdAt: product.createdAt,
         updatedAt: product.updatedAt,
       },
     });
   } catch (err: unknown) {
+    if (err instanceof InvalidImageError) {
+      res.status(400).json({
+        success: false,
+        message: err.message,
+      });
+      return;
+    }
     console.error("Update product error:", err);
     res.status(500).json({
       success: false,
@@ -742,8 +1615,12 @@ export const deleteProduct = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // Delete the product
+    // Delete the product; its remaining stock leaves the ledger
     await Product.findByIdAndDelete(id);
+    await recordMovements(
+      stockChangeEntries(product, stockSnapshot(product), new Map(), "adjustment", { id: userId, role: "supplier" }, "Product deleted")
+    );
+    await releaseFiles([...product.images, ...product.variants.flatMap((v) => v.images), product.video]);
 
     res.status(200).json({
       success: true,
@@ -758,3 +1635,724 @@ export const deleteProduct = async (req: AuthRequest, res: Response): Promise<vo
   }
 };
 
+
+// Add a variant to a product (supplier only). Images are optional.
+export const addProductVariant = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+      return;
+    }
+
+    if (product.supplierId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only update your own products",
+      });
+      return;
+    }
+
+    // Stock before the change, for the inventory ledger
+    const stockBefore = stockSnapshot(product);
+
+    const parsed = parseVariant(req.body);
+    if ("error" in parsed) {
+      res.status(400).json({
+        success: false,
+        message: parsed.error,
+      });
+      return;
+    }
+
+    if (product.variants.some((v) => v.reference === parsed.variant.reference)) {
+      res.status(409).json({
+        success: false,
+        message: `Variant reference ${parsed.variant.reference} already exists for this product`,
+      });
+      return;
+    }
+
+    const images = req.files && (req.files as any).images ? (req.files as any).images : [];
+    const variantImages = await processImages(images);
+    product.variants.push({
+      ...parsed.variant,
+      images: variantImages,
+    } as IProductVariant);
+
+    const saved = await saveProductStock(res, product, stockBefore, "initial", { id: userId, role: "supplier" });
+    if (!saved) {
+      await releaseFiles(variantImages);
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Variant added successfully",
+      data: {
+        id: product._id,
+        quantity: product.quantity,
+        sellingPrice: product.sellingPrice,
+        variants: toSupplierVariants(product.variants),
+      },
+    });
+  } catch (err: unknown) {
+    if (err instanceof InvalidImageError) {
+      res.status(400).json({
+        success: false,
+        message: err.message,
+      });
+      return;
+    }
+    console.error("Add product variant error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Update a variant (supplier only). Omitted fields keep their value; new images replace the old ones.
+export const updateProductVariant = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { id, variantId } = req.params;
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+      return;
+    }
+
+    if (product.supplierId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only update your own products",
+      });
+      return;
+    }
+
+    // Stock before the change, for the inventory ledger
+    const stockBefore = stockSnapshot(product);
+
+    const variant = product.variants.find((v) => v._id.toString() === variantId);
+    if (!variant) {
+      res.status(404).json({
+        success: false,
+        message: "Variant not found",
+      });
+      return;
+    }
+
+    const body = req.body || {};
+    const parsed = parseVariant({
+      reference: body.reference ?? variant.reference,
+      label: body.label ?? variant.label,
+      packSize: body.packSize ?? variant.packSize,
+      concentration: body.concentration ?? variant.concentration,
+      purchasePrice: body.purchasePrice ?? variant.purchasePrice,
+      sellingPrice: body.sellingPrice ?? variant.sellingPrice,
+      quantity: body.quantity ?? variant.quantity,
+    });
+    if ("error" in parsed) {
+      res.status(400).json({
+        success: false,
+        message: parsed.error,
+      });
+      return;
+    }
+
+    if (product.variants.some((v) => v._id.toString() !== variantId && v.reference === parsed.variant.reference)) {
+      res.status(409).json({
+        success: false,
+        message: `Variant reference ${parsed.variant.reference} already exists for this product`,
+      });
+      return;
+    }
+
+    Object.assign(variant, { packSize: undefined, concentration: undefined, ...parsed.variant });
+
+    const images = req.files && (req.files as any).images ? (req.files as any).images : [];
+    const replacedImages = images.length > 0 ? [...variant.images] : [];
+    if (images.length > 0) {
+      variant.images = await processImages(images);
+    }
+
+    product.markModified("variants");
+    const saved = await saveProductStock(res, product, stockBefore, "adjustment", { id: userId, role: "supplier" });
+    if (!saved) {
+      // The replacement images were never saved on the variant
+      if (images.length > 0) {
+        await releaseFiles(variant.images);
+      }
+      return;
+    }
+    await releaseFiles(replacedImages);
+
+    res.status(200).json({
+      success: true,
+      message: "Variant updated successfully",
+      data: {
+        id: product._id,
+        quantity: product.quantity,
+        sellingPrice: product.sellingPrice,
+        variants: toSupplierVariants(product.variants),
+      },
+    });
+  } catch (err: unknown) {
+    if (err instanceof InvalidImageError) {
+      res.status(400).json({
+        success: false,
+        message: err.message,
+      });
+      return;
+    }
+    console.error("Update product variant error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Delete a variant (supplier only). Orders keep the variant's name and reference.
+export const deleteProductVariant = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { id, variantId } = req.params;
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+      return;
+    }
+
+    if (product.supplierId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only update your own products",
+      });
+      return;
+    }
+
+    // Stock before the change, for the inventory ledger
+    const stockBefore = stockSnapshot(product);
+
+    const variant = product.variants.find((v) => v._id.toString() === variantId);
+    if (!variant) {
+      res.status(404).json({
+        success: false,
+        message: "Variant not found",
+      });
+      return;
+    }
+
+    product.variants = product.variants.filter((v) => v._id.toString() !== variantId);
+    product.lots = product.lots.filter((lot) => lot.variantId?.toString() !== variantId);
+    // Removing the last variant turns it back into a simple product, with no stock until the supplier sets it
+    if (product.variants.length === 0) {
+      product.quantity = 0;
+    }
+
+    const saved = await saveProductStock(res, product, stockBefore, "adjustment", { id: userId, role: "supplier" });
+    if (!saved) {
+      return;
+    }
+    await releaseFiles(variant.images);
+
+    res.status(200).json({
+      success: true,
+      message: "Variant deleted successfully",
+      data: {
+        id: product._id,
+        quantity: product.quantity,
+        sellingPrice: product.sellingPrice,
+        variants: toSupplierVariants(product.variants),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Delete product variant error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Receive a stock lot for a product, or for one of its variants (supplier only).
+// From its first lot, the stock of a product or variant is the total of its lots.
+export const addProductLot = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+      return;
+    }
+
+    if (product.supplierId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only update your own products",
+      });
+      return;
+    }
+
+    // Stock before the change, for the inventory ledger
+    const stockBefore = stockSnapshot(product);
+
+    const parsed = parseLot(req.body);
+    if ("error" in parsed) {
+      res.status(400).json({
+        success: false,
+        message: parsed.error,
+      });
+      return;
+    }
+
+    // Products sold by variant keep their lots per variant
+    const variantId = req.body?.variantId ? String(req.body.variantId) : undefined;
+    if (product.variants.length > 0 && !product.variants.some((v) => v._id.toString() === variantId)) {
+      res.status(400).json({
+        success: false,
+        message: "A valid variantId is required for products sold by variant",
+      });
+      return;
+    }
+    if (product.variants.length === 0 && variantId) {
+      res.status(400).json({
+        success: false,
+        message: "This product has no variants",
+      });
+      return;
+    }
+
+    if (product.lots.some((lot) => lot.lotNumber === parsed.lot.lotNumber && lot.variantId?.toString() === variantId)) {
+      res.status(409).json({
+        success: false,
+        message: `Lot ${parsed.lot.lotNumber} already exists for this product`,
+      });
+      return;
+    }
+
+    product.lots.push({
+      ...parsed.lot,
+      ...(variantId && { variantId: new mongoose.Types.ObjectId(variantId) }),
+    } as IProductLot);
+
+    const saved = await saveProductStock(res, product, stockBefore, "adjustment", { id: userId, role: "supplier" }, `Lot ${parsed.lot.lotNumber} received`);
+    if (!saved) {
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Lot added successfully",
+      data: {
+        id: product._id,
+        quantity: product.quantity,
+        variants: toSupplierVariants(product.variants),
+        lots: product.lots,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Add product lot error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Correct a lot's number, expiry date or quantity (supplier only)
+export const updateProductLot = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { id, lotId } = req.params;
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+      return;
+    }
+
+    if (product.supplierId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only update your own products",
+      });
+      return;
+    }
+
+    // Stock before the change, for the inventory ledger
+    const stockBefore = stockSnapshot(product);
+
+    const lot = product.lots.find((l) => l._id.toString() === lotId);
+    if (!lot) {
+      res.status(404).json({
+        success: false,
+        message: "Lot not found",
+      });
+      return;
+    }
+
+    const parsed = parseLot(req.body || {}, lot);
+    if ("error" in parsed) {
+      res.status(400).json({
+        success: false,
+        message: parsed.error,
+      });
+      return;
+    }
+
+    if (
+      product.lots.some(
+        (l) =>
+          l._id.toString() !== lotId &&
+          l.lotNumber === parsed.lot.lotNumber &&
+          l.variantId?.toString() === lot.variantId?.toString()
+      )
+    ) {
+      res.status(409).json({
+        success: false,
+        message: `Lot ${parsed.lot.lotNumber} already exists for this product`,
+      });
+      return;
+    }
+
+    Object.assign(lot, parsed.lot);
+    product.markModified("lots");
+    const saved = await saveProductStock(res, product, stockBefore, "adjustment", { id: userId, role: "supplier" }, `Lot ${parsed.lot.lotNumber} corrected`);
+    if (!saved) {
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Lot updated successfully",
+      data: {
+        id: product._id,
+        quantity: product.quantity,
+        variants: toSupplierVariants(product.variants),
+        lots: product.lots,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Update product lot error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Delete a lot, e.g. to write off expired stock (supplier only). Its quantity leaves the stock.
+export const deleteProductLot = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { id, lotId } = req.params;
+
+    const product = await Product.findById(id);
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: "Product not found",
+      });
+      return;
+    }
+
+    if (product.supplierId.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only update your own products",
+      });
+      return;
+    }
+
+    // Stock before the change, for the inventory ledger
+    const stockBefore = stockSnapshot(product);
+
+    const lot = product.lots.find((l) => l._id.toString() === lotId);
+    if (!lot) {
+      res.status(404).json({
+        success: false,
+        message: "Lot not found",
+      });
+      return;
+    }
+
+    // Also right when it was the last lot: the remaining stock is no longer recomputed from lots
+    const variant = lot.variantId && product.variants.find((v) => v._id.toString() === lot.variantId!.toString());
+    if (variant) {
+      variant.quantity = Math.max(0, variant.quantity - lot.quantity);
+      product.markModified("variants");
+    } else {
+      product.quantity = Math.max(0, product.quantity - lot.quantity);
+    }
+    product.lots = product.lots.filter((l) => l._id.toString() !== lotId);
+
+    const saved = await saveProductStock(res, product, stockBefore, "adjustment", { id: userId, role: "supplier" }, `Lot ${lot.lotNumber} deleted`);
+    if (!saved) {
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Lot deleted successfully",
+      data: {
+        id: product._id,
+        quantity: product.quantity,
+        variants: toSupplierVariants(product.variants),
+        lots: product.lots,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Delete product lot error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Lots of the supplier's products expiring within ?days= days (default 30), expired lots still in stock included
+export const getExpiringLots = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const days = req.query.days !== undefined ? parseInt(req.query.days as string) : 30;
+    if (isNaN(days) || days < 0 || days > 365) {
+      res.status(400).json({
+        success: false,
+        message: "days must be an integer between 0 and 365",
+      });
+      return;
+    }
+
+    const now = new Date();
+    const limit = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const products = await Product.find({
+      supplierId: userId,
+      lots: { $elemMatch: { expiryDate: { $lte: limit }, quantity: { $gt: 0 } } },
+    }).select("name reference variants lots");
+
+    const lots = products
+      .flatMap((product) =>
+        product.lots
+          .filter((lot) => lot.expiryDate <= limit && lot.quantity > 0)
+          .map((lot) => {
+            const variant = lot.variantId && product.variants.find((v) => v._id.toString() === lot.variantId!.toString());
+            return {
+              lotId: lot._id,
+              lotNumber: lot.lotNumber,
+              expiryDate: lot.expiryDate,
+              quantity: lot.quantity,
+              expired: lot.expiryDate < now,
+              daysLeft: Math.ceil((lot.expiryDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+              productId: product._id,
+              productName: product.name,
+              reference: variant ? variant.reference : product.reference,
+              ...(variant && { variantId: variant._id, variantLabel: variant.label }),
+            };
+          })
+      )
+      .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+
+    res.status(200).json({
+      success: true,
+      data: {
+        days,
+        lots,
+        total: lots.length,
+        expiredQuantity: lots.filter((lot) => lot.expired).reduce((sum, lot) => sum + lot.quantity, 0),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get expiring lots error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Supplier dashboard: products (or variants) at or below their low-stock threshold, with their sales
+// over the last ?days= days (default 30) and how many days of stock that leaves at this pace
+export const getLowStockProducts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const days = req.query.days !== undefined ? parseInt(req.query.days as string) : 30;
+    if (isNaN(days) || days < 1 || days > 365) {
+      res.status(400).json({
+        success: false,
+        message: "days must be an integer between 1 and 365",
+      });
+      return;
+    }
+
+    const products = await Product.find({ supplierId: userId, lowStockThreshold: { $ne: null } });
+
+    // Products sold by variant are checked variant by variant
+    const lines = products.flatMap((product) => {
+      const threshold = product.lowStockThreshold!;
+      const stockLines =
+        product.variants.length > 0
+          ? product.variants.map((v) => ({
+              variantId: v._id,
+              name: `${product.name} - ${v.label}`,
+              reference: v.reference,
+              quantity: v.quantity,
+            }))
+          : [{ variantId: undefined, name: product.name, reference: product.reference, quantity: product.quantity }];
+      return stockLines
+        .filter((line) => line.quantity <= threshold)
+        .map((line) => ({ productId: product._id, ...line, threshold }));
+    });
+
+    // Units sold per product and variant over the period, orders cancelled or refused excluded
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const sales = await Commande.aggregate([
+      {
+        $match: {
+          idSupplier: new mongoose.Types.ObjectId(userId),
+          status: { $nin: ["cancelled", "refused"] },
+          createdAt: { $gte: since },
+        },
+      },
+      { $unwind: "$products" },
+      { $match: { "products.productId": { $in: lines.map((line) => line.productId) } } },
+      {
+        $group: {
+          _id: { productId: "$products.productId", variantId: "$products.variantId" },
+          sold: { $sum: "$products.quantity" },
+        },
+      },
+    ]);
+    const soldByLine = new Map<string, number>(
+      sales.map((s) => [`${s._id.productId}:${s._id.variantId || ""}`, s.sold])
+    );
+
+    const lowStock = lines
+      .map((line) => {
+        const sold = soldByLine.get(`${line.productId}:${line.variantId || ""}`) || 0;
+        const dailySales = sold / days;
+        return {
+          productId: line.productId,
+          ...(line.variantId && { variantId: line.variantId }),
+          name: line.name,
+          reference: line.reference,
+          quantity: line.quantity,
+          threshold: line.threshold,
+          soldInPeriod: sold,
+          dailySales: Math.round(dailySales * 100) / 100,
+          // null when nothing sold over the period
+          daysOfStockLeft: dailySales > 0 ? Math.floor(line.quantity / dailySales) : null,
+        };
+      })
+      // Most urgent first: fewest days of stock left, then lowest stock
+      .sort(
+        (a, b) =>
+          (a.daysOfStockLeft ?? Infinity) - (b.daysOfStockLeft ?? Infinity) || a.quantity - b.quantity
+      );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        days,
+        products: lowStock,
+        total: lowStock.length,
+        outOfStock: lowStock.filter((line) => line.quantity === 0).length,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get low-stock products error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
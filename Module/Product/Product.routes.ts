@@ -7,9 +7,19 @@ import {
   uploadProductsFromExcel,
   getSupplierProducts,
   getAllProducts,
+  searchProducts,
   getProductById,
   updateProduct,
   deleteProduct,
+  addProductVariant,
+  updateProductVariant,
+  deleteProductVariant,
+  addProductLot,
+  updateProductLot,
+  deleteProductLot,
+  getExpiringLots,
+  getLowStockProducts,
+  exportSupplierCatalog,
 } from "./Product.controller";
 import { authenticateToken, AuthRequest } from "../../middleware/auth.middleware";
 import { requireSupplier } from "../../middleware/role.middleware";
@@ -20,6 +30,7 @@ import {
 } from "../../middleware/validation.middleware";
 import {
   validateUploadedFiles,
+  discardUploadsOnError,
   ALLOWED_IMAGE_EXTENSIONS,
   ALLOWED_VIDEO_EXTENSIONS,
   ALLOWED_EXCEL_EXTENSIONS,
@@ -28,11 +39,12 @@ import {
   fileUploadRateLimiter,
   productCreationRateLimiter,
 } from "../../middleware/rateLimit.middleware";
+import { uploadStorage } from "../../utils/storage.service";
 
 const router = Router();
 
 // Configure multer for Excel file uploads
-const excelStorage = multer.diskStorage({
+const excelStorage = uploadStorage({
   destination: (req, file, cb) => {
     cb(null, "uploads/excel/");
   },
@@ -49,15 +61,16 @@ const excelFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFil
     "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", // .xlsx
     "application/vnd.ms-excel", // .xls
     "application/vnd.ms-excel.sheet.macroEnabled.12", // .xlsm
+    "text/csv", // .csv
   ];
 
   if (
     allowedMimeTypes.includes(file.mimetype) ||
-    file.originalname.match(/\.(xlsx|xls)$/i)
+    file.originalname.match(/\.(xlsx|xls|csv)$/i)
   ) {
     cb(null, true);
   } else {
-    cb(new Error("Only Excel files (.xlsx, .xls) are allowed"));
+    cb(new Error("Only Excel or CSV files (.xlsx, .xls, .csv) are allowed"));
   }
 };
 
@@ -70,7 +83,7 @@ const uploadExcel = multer({
 });
 
 // Configure multer for product images and video
-const productStorage = multer.diskStorage({
+const productStorage = uploadStorage({
   destination: (req, file, cb) => {
     if (file.fieldname === "images") {
       cb(null, "uploads/products/images/");
@@ -143,9 +156,12 @@ const optionalAuth = (req: AuthRequest, res: Response, next: NextFunction): void
 };
 
 // Public routes (optional authentication - will filter by laboType if client is logged in)
-// Get all products (for clients)
+// Get all products (for clients) - paginated, with filters, sort and facet counts
 router.get("/public", optionalAuth, getAllProducts);
 
+// Search products by relevance (for clients) - ?q= plus the catalog filters
+router.get("/public/search", optionalAuth, searchProducts);
+
 // Get single product by ID (for clients)
 router.get("/public/:id", optionalAuth, getProductById);
 
@@ -157,6 +173,7 @@ router.use(requireSupplier);
 router.post(
   "/",
   productCreationRateLimiter,
+  discardUploadsOnError,
   uploadProduct.fields([
     { name: "images", maxCount: 10 }, // Allow up to 10 images
     { name: "video", maxCount: 1 }, // Allow only 1 video
@@ -167,10 +184,11 @@ router.post(
   createProduct
 );
 
-// Upload products from Excel
+// Upload products from Excel or CSV: upsert by reference, optional dryRun and zeroMissing form fields
 router.post(
   "/upload-excel",
   fileUploadRateLimiter,
+  discardUploadsOnError,
   uploadExcel.single("excelFile"),
   validateUploadedFiles(ALLOWED_EXCEL_EXTENSIONS, 1),
   uploadProductsFromExcel
@@ -179,10 +197,20 @@ router.post(
 // Get all products for the authenticated supplier
 router.get("/", getSupplierProducts);
 
+// Lots of the supplier's products expiring within ?days= days (default 30)
+router.get("/lots/expiring", getExpiringLots);
+
+// Products at or below their low-stock threshold, with recent sales velocity (?days=, default 30)
+router.get("/low-stock", getLowStockProducts);
+
+// Export the supplier's catalog in the Excel import layout (?format=xlsx|csv)
+router.get("/export", exportSupplierCatalog);
+
 // Update a product
 router.put(
   "/:id",
   productCreationRateLimiter,
+  discardUploadsOnError,
   uploadProduct.fields([
     { name: "images", maxCount: 10 },
     { name: "video", maxCount: 1 },
@@ -196,5 +224,31 @@ router.put(
 // Delete a product
 router.delete("/:id", deleteProduct);
 
+// Manage the variants of a product (pack sizes, concentrations...), each with optional images
+router.post(
+  "/:id/variants",
+  productCreationRateLimiter,
+  discardUploadsOnError,
+  uploadProduct.fields([{ name: "images", maxCount: 5 }]),
+  sanitizeBody,
+  validateUploadedFiles(ALLOWED_IMAGE_EXTENSIONS, 5),
+  addProductVariant
+);
+router.put(
+  "/:id/variants/:variantId",
+  productCreationRateLimiter,
+  discardUploadsOnError,
+  uploadProduct.fields([{ name: "images", maxCount: 5 }]),
+  sanitizeBody,
+  validateUploadedFiles(ALLOWED_IMAGE_EXTENSIONS, 5),
+  updateProductVariant
+);
+router.delete("/:id/variants/:variantId", deleteProductVariant);
+
+// Manage the stock lots of a product (lot number, expiry date, quantity), allocated to orders first-expired first-out
+router.post("/:id/lots", sanitizeBody, addProductLot);
+router.put("/:id/lots/:lotId", sanitizeBody, updateProductLot);
+router.delete("/:id/lots/:lotId", deleteProductLot);
+
 export default router;
 
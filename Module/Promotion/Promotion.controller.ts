@@ -0,0 +1,466 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import Promotion, { IPromotion } from "../../entity/Promotion";
+import Product from "../../entity/Product";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { applyPromotions } from "../../utils/promotion.service";
+import { getUnitPrice } from "../../utils/pricing.service";
+
+// Validate the promotion fields from the request body, falling back to the current values on update
+const parsePromotionInput = async (
+  body: any,
+  supplierId: string,
+  current?: IPromotion
+): Promise<{ error: string } | { data: Omit<Partial<IPromotion>, "code"> & { code: string | null } }> => {
+  const name = body.name !== undefined ? body.name : current?.name;
+  if (typeof name !== "string" || name.trim().length < 2 || name.trim().length > 100) {
+    return { error: "Promotion name must be between 2 and 100 characters" };
+  }
+
+  // An empty code turns a coupon into an automatic promotion
+  let code: string | null = body.code !== undefined ? body.code : current?.code ?? null;
+  if (code !== null && code !== "") {
+    if (typeof code !== "string" || !/^[A-Za-z0-9_-]{3,30}$/.test(code.trim())) {
+      return { error: "Coupon code must be 3 to 30 letters, digits, '-' or '_'" };
+    }
+    code = code.trim().toUpperCase();
+  } else {
+    code = null;
+  }
+
+  const discountType = body.discountType !== undefined ? body.discountType : current?.discountType;
+  if (discountType !== "percentage" && discountType !== "fixed") {
+    return { error: "Discount type must be 'percentage' or 'fixed'" };
+  }
+
+  const value = body.value !== undefined ? parseFloat(body.value) : current?.value;
+  if (value === undefined || isNaN(value) || value <= 0 || (discountType === "percentage" && value > 100) || value > 10000000) {
+    return {
+      error: discountType === "percentage"
+        ? "Percentage must be greater than 0 and at most 100"
+        : "Fixed discount must be a valid amount between 0 and 10,000,000 DA",
+    };
+  }
+
+  const scope = body.scope !== undefined ? body.scope : current?.scope || "store";
+  if (!["store", "product", "category"].includes(scope)) {
+    return { error: "Scope must be 'store', 'product' or 'category'" };
+  }
+
+  let productIds: mongoose.Types.ObjectId[] = [];
+  let categories: string[] = [];
+  if (scope === "product") {
+    const rawIds = body.productIds !== undefined ? body.productIds : current?.productIds?.map((id) => id.toString());
+    if (!Array.isArray(rawIds) || rawIds.length === 0 || rawIds.some((id) => !mongoose.Types.ObjectId.isValid(String(id)))) {
+      return { error: "A non-empty array of valid product IDs is required for a product promotion" };
+    }
+    const owned = await Product.countDocuments({ _id: { $in: rawIds }, supplierId });
+    if (owned !== new Set(rawIds.map(String)).size) {
+      return { error: "Promotions can only target your own products" };
+    }
+    productIds = Array.from(new Set(rawIds.map(String))).map((id) => new mongoose.Types.ObjectId(id));
+  } else if (scope === "category") {
+    const rawCategories = body.categories !== undefined ? body.categories : current?.categories;
+    if (!Array.isArray(rawCategories) || rawCategories.length === 0 || rawCategories.some((c) => typeof c !== "string" || !c.trim())) {
+      return { error: "A non-empty array of categories is required for a category promotion" };
+    }
+    categories = Array.from(new Set(rawCategories.map((c: string) => c.trim())));
+  }
+
+  const minOrderAmount = body.minOrderAmount !== undefined ? parseFloat(body.minOrderAmount) : current?.minOrderAmount || 0;
+  if (isNaN(minOrderAmount) || minOrderAmount < 0) {
+    return { error: "Minimum order amount must be a positive number" };
+  }
+
+  const startsAt = new Date(body.startsAt !== undefined ? body.startsAt : current?.startsAt);
+  const endsAt = new Date(body.endsAt !== undefined ? body.endsAt : current?.endsAt);
+  if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+    return { error: "Valid startsAt and endsAt dates are required, with endsAt after startsAt" };
+  }
+
+  // Limits are optional: null or an empty value removes them
+  const parseLimit = (raw: unknown, fallback?: number): number | null | undefined => {
+    if (raw === undefined) return fallback ?? null;
+    if (raw === null || raw === "") return null;
+    const limit = parseInt(String(raw));
+    return isNaN(limit) || limit < 1 ? undefined : limit;
+  };
+  const usageLimit = parseLimit(body.usageLimit, current?.usageLimit);
+  const perClientLimit = parseLimit(body.perClientLimit, current?.perClientLimit);
+  if (usageLimit === undefined || perClientLimit === undefined) {
+    return { error: "Usage limits must be integers of at least 1" };
+  }
+
+  const isActive = body.isActive !== undefined ? body.isActive === true || body.isActive === "true" : current?.isActive ?? true;
+
+  return {
+    data: {
+      name: name.trim(),
+      code,
+      discountType,
+      value,
+      scope,
+      productIds,
+      categories,
+      minOrderAmount,
+      startsAt,
+      endsAt,
+      usageLimit: usageLimit ?? undefined,
+      perClientLimit: perClientLimit ?? undefined,
+      isActive,
+    },
+  };
+};
+
+// Coupon codes must be unique per supplier
+const isCodeTaken = async (supplierId: string, code: string | null | undefined, excludeId?: mongoose.Types.ObjectId) => {
+  if (!code) return false;
+  const existing = await Promotion.findOne({ idSupplier: supplierId, code, ...(excludeId && { _id: { $ne: excludeId } }) });
+  return !!existing;
+};
+
+// Create a promotion or coupon (supplier only)
+export const createPromotion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const parsed = await parsePromotionInput(req.body, userId);
+    if ("error" in parsed) {
+      res.status(400).json({
+        success: false,
+        message: parsed.error,
+      });
+      return;
+    }
+
+    if (await isCodeTaken(userId, parsed.data.code)) {
+      res.status(409).json({
+        success: false,
+        message: `Coupon code ${parsed.data.code} already exists`,
+      });
+      return;
+    }
+
+    const { code, ...fields } = parsed.data;
+    const promotion = new Promotion({
+      ...fields,
+      ...(code && { code }),
+      idSupplier: userId,
+      usedCount: 0,
+    });
+
+    await promotion.save();
+
+    res.status(201).json({
+      success: true,
+      message: "Promotion created successfully",
+      data: promotion,
+    });
+  } catch (err: unknown) {
+    console.error("Create promotion error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get the supplier's promotions (?status=running|scheduled|expired|inactive)
+export const getSupplierPromotions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const now = new Date();
+    const filter: any = { idSupplier: userId };
+    const { status } = req.query;
+    if (status === "running") {
+      Object.assign(filter, { isActive: true, startsAt: { $lte: now }, endsAt: { $gte: now } });
+    } else if (status === "scheduled") {
+      Object.assign(filter, { isActive: true, startsAt: { $gt: now } });
+    } else if (status === "expired") {
+      filter.endsAt = { $lt: now };
+    } else if (status === "inactive") {
+      filter.isActive = false;
+    }
+
+    const promotions = await Promotion.find(filter)
+      .populate("productIds", "name sellingPrice")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        promotions,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get supplier promotions error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get the automatic promotions a supplier is currently running (coupon codes are not listed)
+export const getRunningPromotions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { supplierId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(supplierId)) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid supplier ID",
+      });
+      return;
+    }
+
+    const now = new Date();
+    const promotions = await Promotion.find({
+      idSupplier: supplierId,
+      code: { $exists: false },
+      isActive: true,
+      startsAt: { $lte: now },
+      endsAt: { $gte: now },
+    })
+      .select("-usedCount -usageLimit -perClientLimit")
+      .sort({ endsAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        promotions,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get running promotions error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Update a promotion (supplier only)
+export const updatePromotion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { promotionId } = req.params;
+
+    const promotion = await Promotion.findById(promotionId);
+    if (!promotion) {
+      res.status(404).json({
+        success: false,
+        message: "Promotion not found",
+      });
+      return;
+    }
+
+    if (promotion.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only update your own promotions",
+      });
+      return;
+    }
+
+    const parsed = await parsePromotionInput(req.body, userId, promotion);
+    if ("error" in parsed) {
+      res.status(400).json({
+        success: false,
+        message: parsed.error,
+      });
+      return;
+    }
+
+    if (await isCodeTaken(userId, parsed.data.code, promotion._id)) {
+      res.status(409).json({
+        success: false,
+        message: `Coupon code ${parsed.data.code} already exists`,
+      });
+      return;
+    }
+
+    const { code, usageLimit, perClientLimit, ...fields } = parsed.data;
+    promotion.set(fields);
+    promotion.set("code", code || undefined);
+    promotion.set("usageLimit", usageLimit);
+    promotion.set("perClientLimit", perClientLimit);
+
+    await promotion.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Promotion updated successfully",
+      data: promotion,
+    });
+  } catch (err: unknown) {
+    console.error("Update promotion error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Delete a promotion (supplier only). Orders keep their own copy of the promotions they used.
+export const deletePromotion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { promotionId } = req.params;
+
+    const promotion = await Promotion.findById(promotionId);
+    if (!promotion) {
+      res.status(404).json({
+        success: false,
+        message: "Promotion not found",
+      });
+      return;
+    }
+
+    if (promotion.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only delete your own promotions",
+      });
+      return;
+    }
+
+    await Promotion.findByIdAndDelete(promotionId);
+
+    res.status(200).json({
+      success: true,
+      message: "Promotion deleted successfully",
+    });
+  } catch (err: unknown) {
+    console.error("Delete promotion error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Price a single-supplier order with its promotions and coupon, without creating it (client only)
+export const previewPromotions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { products, couponCode } = req.body;
+
+    if (!products || !Array.isArray(products) || products.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Products array is required and must not be empty",
+      });
+      return;
+    }
+
+    const lines = [];
+    const supplierIds = new Set<string>();
+    for (const item of products) {
+      if (!item.id || !item.quantity || item.quantity < 1) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid product data",
+        });
+        return;
+      }
+
+      const product = await Product.findById(item.id);
+      if (!product) {
+        res.status(404).json({
+          success: false,
+          message: `Product ${item.id} not found`,
+        });
+        return;
+      }
+
+      supplierIds.add(product.supplierId.toString());
+      lines.push({
+        productId: product._id,
+        name: product.name,
+        price: getUnitPrice(product, item.quantity),
+        quantity: item.quantity,
+      });
+    }
+
+    if (supplierIds.size !== 1) {
+      res.status(400).json({
+        success: false,
+        message: "All products must be from the same supplier",
+      });
+      return;
+    }
+
+    const pricing = await applyPromotions(
+      Array.from(supplierIds)[0],
+      userId,
+      lines,
+      typeof couponCode === "string" && couponCode ? couponCode : undefined
+    );
+    if ("error" in pricing) {
+      res.status(400).json({
+        success: false,
+        message: pricing.error,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: pricing,
+    });
+  } catch (err: unknown) {
+    console.error("Preview promotions error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
@@ -0,0 +1,30 @@
+import { Router } from "express";
+import {
+  createPromotion,
+  getSupplierPromotions,
+  getRunningPromotions,
+  updatePromotion,
+  deletePromotion,
+  previewPromotions,
+} from "./Promotion.controller";
+import { authenticateToken } from "../../middleware/auth.middleware";
+import { requireClient, requireSupplier } from "../../middleware/role.middleware";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// Manage the current supplier's promotions and coupons (suppliers only)
+router.post("/", requireSupplier, createPromotion);
+router.get("/supplier", requireSupplier, getSupplierPromotions);
+router.put("/:promotionId", requireSupplier, updatePromotion);
+router.delete("/:promotionId", requireSupplier, deletePromotion);
+
+// Price an order with running promotions and an optional coupon (clients only)
+router.post("/preview", requireClient, previewPromotions);
+
+// Automatic promotions a supplier is currently running
+router.get("/supplier/:supplierId", getRunningPromotions);
+
+export default router;
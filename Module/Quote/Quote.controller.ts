@@ -0,0 +1,718 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import Quote from "../../entity/Quote";
+import Commande from "../../entity/Commande";
+import Product from "../../entity/Product";
+import User from "../../entity/User";
+import Notification from "../../entity/Notification";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { reserveStock, InsufficientStockError } from "../../utils/stock.service";
+import { notifyLowStock } from "../../utils/stockAlert.service";
+import { orderMovementEntries, recordMovements } from "../../utils/inventory.service";
+import { statusChange, resolvePaymentMethod, paymentInstructions, buildOrderLine } from "../../utils/order.service";
+
+// Socket.io instance (will be set from index.ts)
+let io: any = null;
+export const setSocketIO = (socketIO: any) => {
+  io = socketIO;
+};
+
+// Save a "quote" notification and push it to the receiver's socket room
+const notifyQuoteUpdate = async (
+  senderId: string,
+  receiverId: mongoose.Types.ObjectId,
+  room: string,
+  event: string,
+  message: string,
+  payload: Record<string, unknown>
+): Promise<void> => {
+  const notification = new Notification({
+    idSender: senderId,
+    idReceiver: receiverId,
+    type: "quote",
+    message: message,
+    isRead: false,
+  });
+
+  await notification.save();
+
+  if (io) {
+    io.to(room).emit(event, {
+      ...payload,
+      message: message,
+      notificationId: notification._id.toString(),
+    });
+  }
+};
+
+// Request a quote from a supplier for some of its products (client only)
+export const createQuote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { supplierId, products, message } = req.body;
+
+    if (!supplierId || !mongoose.Types.ObjectId.isValid(supplierId)) {
+      res.status(400).json({
+        success: false,
+        message: "Valid supplier ID is required",
+      });
+      return;
+    }
+
+    if (!products || !Array.isArray(products) || products.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Products array is required and must not be empty",
+      });
+      return;
+    }
+
+    if (message !== undefined && (typeof message !== "string" || message.length > 1000)) {
+      res.status(400).json({
+        success: false,
+        message: "Message cannot exceed 1000 characters",
+      });
+      return;
+    }
+
+    const supplier = await User.findById(supplierId);
+    if (!supplier || supplier.role !== "supplier") {
+      res.status(404).json({
+        success: false,
+        message: "Supplier not found",
+      });
+      return;
+    }
+
+    const lines = [];
+    for (const item of products) {
+      if (!item.id || !item.quantity || item.quantity < 1) {
+        res.status(400).json({
+          success: false,
+          message: "Invalid product data",
+        });
+        return;
+      }
+
+      const product = await Product.findById(item.id);
+      if (!product) {
+        res.status(404).json({
+          success: false,
+          message: `Product ${item.id} not found`,
+        });
+        return;
+      }
+
+      if (product.supplierId.toString() !== supplierId) {
+        res.status(400).json({
+          success: false,
+          message: `Product ${product.name} is not sold by this supplier`,
+        });
+        return;
+      }
+
+      // Products sold by variant are quoted per variant (item.variantId)
+      const orderLine = buildOrderLine(product, item.variantId, item.quantity);
+      if ("error" in orderLine) {
+        res.status(400).json({
+          success: false,
+          message: orderLine.error,
+        });
+        return;
+      }
+
+      lines.push({
+        productId: product._id,
+        variantId: orderLine.line.variantId,
+        reference: orderLine.line.reference,
+        name: orderLine.line.name,
+        quantity: item.quantity,
+        listPrice: orderLine.line.price,
+      });
+    }
+
+    const quote = new Quote({
+      idClient: userId,
+      idSupplier: supplierId,
+      lines,
+      message: message?.trim(),
+      status: "requested",
+    });
+
+    await quote.save();
+
+    const user = await User.findById(userId);
+    await notifyQuoteUpdate(
+      userId,
+      supplier._id,
+      `supplier_${supplierId}`,
+      "newQuoteRequest",
+      `Nouvelle demande de devis de ${user ? `${user.firstName} ${user.lastName}` : "un client"} - ${lines.length} produit(s)`,
+      { quoteId: quote._id.toString() }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Quote request sent successfully",
+      data: quote,
+    });
+  } catch (err: unknown) {
+    console.error("Create quote error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get quotes requested by the client
+export const getClientQuotes = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const quotes = await Quote.find({ idClient: userId })
+      .populate("idSupplier", "firstName lastName email phone")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        quotes,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get client quotes error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get quotes received by the supplier (?status=requested|answered|...)
+export const getSupplierQuotes = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const filter: any = { idSupplier: userId };
+    const { status } = req.query;
+    if (typeof status === "string" && ["requested", "answered", "declined", "rejected", "accepted"].includes(status)) {
+      filter.status = status;
+    }
+
+    const quotes = await Quote.find(filter)
+      .populate("idClient", "firstName lastName email phone")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        quotes,
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get supplier quotes error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get one quote (client or supplier of the quote)
+export const getQuoteById = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { quoteId } = req.params;
+
+    const quote = await Quote.findById(quoteId)
+      .populate("idClient", "firstName lastName email phone")
+      .populate("idSupplier", "firstName lastName email phone");
+    if (!quote) {
+      res.status(404).json({
+        success: false,
+        message: "Quote not found",
+      });
+      return;
+    }
+
+    if ((quote.idClient as any)._id.toString() !== userId && (quote.idSupplier as any)._id.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only view your own quotes",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: quote,
+    });
+  } catch (err: unknown) {
+    console.error("Get quote error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Answer a quote request with per-line prices and a validity date (supplier only)
+export const answerQuote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { quoteId } = req.params;
+    const { lines, validUntil, note } = req.body;
+
+    if (!lines || !Array.isArray(lines) || lines.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Lines array with productId (and variantId for variant lines) and unitPrice is required",
+      });
+      return;
+    }
+
+    const validUntilDate = new Date(validUntil);
+    if (!validUntil || isNaN(validUntilDate.getTime()) || validUntilDate <= new Date()) {
+      res.status(400).json({
+        success: false,
+        message: "validUntil must be a valid date in the future",
+      });
+      return;
+    }
+
+    if (note !== undefined && (typeof note !== "string" || note.length > 1000)) {
+      res.status(400).json({
+        success: false,
+        message: "Note cannot exceed 1000 characters",
+      });
+      return;
+    }
+
+    const quote = await Quote.findById(quoteId);
+    if (!quote) {
+      res.status(404).json({
+        success: false,
+        message: "Quote not found",
+      });
+      return;
+    }
+
+    if (quote.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the supplier can answer this quote",
+      });
+      return;
+    }
+
+    if (quote.status !== "requested") {
+      res.status(400).json({
+        success: false,
+        message: "Only quotes with status 'requested' can be answered",
+      });
+      return;
+    }
+
+    // Every requested line must get a price
+    for (const line of quote.lines) {
+      const answer = lines.find(
+        (l: any) =>
+          String(l?.productId) === line.productId.toString() &&
+          (l?.variantId ? String(l.variantId) : "") === (line.variantId?.toString() || "")
+      );
+      const unitPrice = answer ? parseFloat(answer.unitPrice) : NaN;
+      if (isNaN(unitPrice) || unitPrice < 0 || unitPrice > 10000000) {
+        res.status(400).json({
+          success: false,
+          message: `A valid unit price is required for product ${line.name}`,
+        });
+        return;
+      }
+      line.unitPrice = unitPrice;
+    }
+
+    quote.validUntil = validUntilDate;
+    quote.supplierNote = note?.trim();
+    quote.status = "answered";
+    await quote.save();
+
+    await notifyQuoteUpdate(
+      userId,
+      quote.idClient,
+      `client_${quote.idClient.toString()}`,
+      "quoteUpdate",
+      `Votre demande de devis a reçu une réponse, valable jusqu'au ${validUntilDate.toLocaleDateString("fr-FR")}`,
+      { quoteId: quote._id.toString(), status: "answered" }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Quote answered successfully",
+      data: quote,
+    });
+  } catch (err: unknown) {
+    console.error("Answer quote error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Decline a quote request with a reason (supplier only)
+export const declineQuote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { quoteId } = req.params;
+    const { reason } = req.body;
+
+    if (!reason || typeof reason !== "string" || reason.trim().length < 3 || reason.trim().length > 1000) {
+      res.status(400).json({
+        success: false,
+        message: "A decline reason between 3 and 1000 characters is required",
+      });
+      return;
+    }
+
+    const quote = await Quote.findById(quoteId);
+    if (!quote) {
+      res.status(404).json({
+        success: false,
+        message: "Quote not found",
+      });
+      return;
+    }
+
+    if (quote.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the supplier can decline this quote",
+      });
+      return;
+    }
+
+    if (quote.status !== "requested") {
+      res.status(400).json({
+        success: false,
+        message: "Only quotes with status 'requested' can be declined",
+      });
+      return;
+    }
+
+    quote.status = "declined";
+    quote.supplierNote = reason.trim();
+    await quote.save();
+
+    await notifyQuoteUpdate(
+      userId,
+      quote.idClient,
+      `client_${quote.idClient.toString()}`,
+      "quoteUpdate",
+      `Votre demande de devis a été refusée. Motif : ${reason.trim()}`,
+      { quoteId: quote._id.toString(), status: "declined" }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Quote declined successfully",
+      data: quote,
+    });
+  } catch (err: unknown) {
+    console.error("Decline quote error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Reject the supplier's answer (client only)
+export const rejectQuote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { quoteId } = req.params;
+
+    const quote = await Quote.findById(quoteId);
+    if (!quote) {
+      res.status(404).json({
+        success: false,
+        message: "Quote not found",
+      });
+      return;
+    }
+
+    if (quote.idClient.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the client can reject this quote",
+      });
+      return;
+    }
+
+    if (quote.status !== "answered") {
+      res.status(400).json({
+        success: false,
+        message: "Only answered quotes can be rejected",
+      });
+      return;
+    }
+
+    quote.status = "rejected";
+    await quote.save();
+
+    await notifyQuoteUpdate(
+      userId,
+      quote.idSupplier,
+      `supplier_${quote.idSupplier.toString()}`,
+      "quoteUpdate",
+      "Votre devis a été refusé par le client",
+      { quoteId: quote._id.toString(), status: "rejected" }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Quote rejected successfully",
+      data: quote,
+    });
+  } catch (err: unknown) {
+    console.error("Reject quote error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Accept an answered quote and convert it into a Commande at the quoted prices (client only)
+export const acceptQuote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { quoteId } = req.params;
+    const { paymentMethod } = req.body;
+
+    const quote = await Quote.findById(quoteId);
+    if (!quote) {
+      res.status(404).json({
+        success: false,
+        message: "Quote not found",
+      });
+      return;
+    }
+
+    if (quote.idClient.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the client can accept this quote",
+      });
+      return;
+    }
+
+    if (quote.status !== "answered") {
+      res.status(400).json({
+        success: false,
+        message: "Only answered quotes can be accepted",
+      });
+      return;
+    }
+
+    if (!quote.validUntil || quote.validUntil < new Date()) {
+      res.status(400).json({
+        success: false,
+        message: "This quote has expired. Please request a new one",
+      });
+      return;
+    }
+
+    const supplier = await User.findById(quote.idSupplier);
+    if (!supplier) {
+      res.status(404).json({
+        success: false,
+        message: "Supplier not found",
+      });
+      return;
+    }
+
+    const payment = resolvePaymentMethod(supplier, paymentMethod);
+    if ("error" in payment) {
+      res.status(400).json({
+        success: false,
+        message: payment.error,
+      });
+      return;
+    }
+
+    const products = quote.lines.map((line) => ({
+      productId: line.productId,
+      ...(line.variantId && { variantId: line.variantId }),
+      ...(line.reference && { reference: line.reference }),
+      name: line.name,
+      price: line.unitPrice!,
+      quantity: line.quantity,
+    }));
+    const total = products.reduce((sum, p) => sum + p.price * p.quantity, 0);
+
+    let newOrder: any = null;
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        newOrder = null;
+        // Conditional on "answered" so a quote is converted only once
+        const accepted = await Quote.findOneAndUpdate(
+          { _id: quoteId, status: "answered" },
+          { $set: { status: "accepted" } },
+          { new: true, session }
+        );
+        if (!accepted) {
+          return;
+        }
+
+        const reservations = await reserveStock(products, session);
+        [newOrder] = await Commande.create(
+          [
+            {
+              total,
+              products: products.map((line, i) => ({ ...line, lots: reservations[i].lots })),
+              idBuyer: userId,
+              idSupplier: quote.idSupplier,
+              status: "en cours",
+              statusHistory: [statusChange(null, "en cours", userId, "client", "Commande issue d'un devis accepté")],
+              paymentMethod: payment.method,
+              quoteId: quote._id,
+            },
+          ],
+          { session }
+        );
+        await recordMovements(
+          orderMovementEntries(
+            "sale",
+            quote.idSupplier,
+            newOrder.products,
+            reservations.map((r) => r.quantityAfter),
+            { id: userId, role: "client" },
+            { orderId: newOrder._id }
+          ),
+          session
+        );
+
+        accepted.id_commande = newOrder._id;
+        await accepted.save({ session });
+      });
+    } catch (err: unknown) {
+      if (err instanceof InsufficientStockError) {
+        res.status(409).json({
+          success: false,
+          message: `${err.message}. The quote has not been accepted.`,
+          outOfStock: err.shortages,
+        });
+        return;
+      }
+      throw err;
+    } finally {
+      await session.endSession();
+    }
+
+    if (!newOrder) {
+      res.status(400).json({
+        success: false,
+        message: "Only answered quotes can be accepted",
+      });
+      return;
+    }
+
+    // Alert the supplier about products that reached their low-stock threshold (in the background)
+    notifyLowStock(quote.idSupplier, products);
+
+    const user = await User.findById(userId);
+    await notifyQuoteUpdate(
+      userId,
+      quote.idSupplier,
+      `supplier_${quote.idSupplier.toString()}`,
+      "newOrder",
+      `Devis accepté par ${user ? `${user.firstName} ${user.lastName}` : "le client"} - Nouvelle commande - Total: ${total.toFixed(2)} DA`,
+      {
+        orderId: newOrder._id.toString(),
+        quoteId: quote._id.toString(),
+        total,
+        productsCount: products.length,
+        createdAt: newOrder.createdAt,
+      }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Quote accepted and order created successfully",
+      data: newOrder,
+      orderId: newOrder._id.toString(),
+      payment: paymentInstructions(payment.method, payment.rip),
+    });
+  } catch (err: unknown) {
+    console.error("Accept quote error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import {
+  createQuote,
+  getClientQuotes,
+  getSupplierQuotes,
+  getQuoteById,
+  answerQuote,
+  declineQuote,
+  rejectQuote,
+  acceptQuote,
+} from "./Quote.controller";
+import { authenticateToken } from "../../middleware/auth.middleware";
+import { requireClient, requireSupplier } from "../../middleware/role.middleware";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// Request a quote from a supplier (clients only)
+router.post("/", requireClient, createQuote);
+
+// Get quotes of the current client
+router.get("/client", requireClient, getClientQuotes);
+
+// Get quotes received by the current supplier (?status=requested|answered|declined|rejected|accepted)
+router.get("/supplier", requireSupplier, getSupplierQuotes);
+
+// Get a single quote (client or supplier of the quote)
+router.get("/:quoteId", getQuoteById);
+
+// Answer / decline a quote request (suppliers only)
+router.put("/:quoteId/answer", requireSupplier, answerQuote);
+router.put("/:quoteId/decline", requireSupplier, declineQuote);
+
+// Reject an answered quote, or accept it and create the order (clients only)
+router.put("/:quoteId/reject", requireClient, rejectQuote);
+router.post("/:quoteId/accept", requireClient, acceptQuote);
+
+export default router;
@@ -0,0 +1,486 @@
+import { Response } from "express";
+import mongoose, { QueryFilter } from "mongoose";
+import ReturnRequest, { IReturnRequest } from "../../entity/ReturnRequest";
+import Commande from "../../entity/Commande";
+import User from "../../entity/User";
+import Notification from "../../entity/Notification";
+import { AuthRequest } from "../../middleware/auth.middleware";
+import { restoreStock } from "../../utils/stock.service";
+import { orderMovementEntries, recordMovements } from "../../utils/inventory.service";
+import { signedFileUrl } from "../../utils/storage.service";
+import { recordReturnRequest, ReturnNotAllowedError } from "../../utils/return.service";
+
+// Socket.io instance (will be set from index.ts)
+let io: any = null;
+export const setSocketIO = (socketIO: any) => {
+  io = socketIO;
+};
+
+const RETURN_REASONS = ["damaged", "missing", "wrong_item", "expired", "other"];
+
+// Return request with signed links to its evidence files
+const withEvidenceUrls = (returnRequest: IReturnRequest) => ({
+  ...returnRequest.toObject(),
+  evidenceUrls: returnRequest.evidence.map((file) => signedFileUrl(file)),
+});
+
+// Create a return request for an arrived order (buyer only)
+export const createReturnRequest = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { id_commande, reason, description } = req.body;
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    if (!id_commande || !reason) {
+      res.status(400).json({
+        success: false,
+        message: "Commande ID and reason are required",
+      });
+      return;
+    }
+
+    if (!RETURN_REASONS.includes(reason)) {
+      res.status(400).json({
+        success: false,
+        message: `Invalid reason. Must be one of: ${RETURN_REASONS.join(", ")}`,
+      });
+      return;
+    }
+
+    if (description !== undefined && (typeof description !== "string" || description.length > 1000)) {
+      res.status(400).json({
+        success: false,
+        message: "Description cannot exceed 1000 characters",
+      });
+      return;
+    }
+
+    // Products arrive as a JSON string when sent as multipart/form-data
+    let products = req.body.products;
+    if (typeof products === "string") {
+      try {
+        products = JSON.parse(products);
+      } catch {
+        products = null;
+      }
+    }
+
+    if (!products || !Array.isArray(products) || products.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "Products array is required and must not be empty",
+      });
+      return;
+    }
+
+    if (files.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: "At least one photo or PDF is required as evidence",
+      });
+      return;
+    }
+
+    const commande = await Commande.findById(id_commande);
+    if (!commande) {
+      res.status(404).json({
+        success: false,
+        message: "Commande not found",
+      });
+      return;
+    }
+
+    // Verify user is the buyer of this commande
+    if (commande.idBuyer.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only request a return for your own orders",
+      });
+      return;
+    }
+
+    if (commande.status !== "arrived") {
+      res.status(400).json({
+        success: false,
+        message: "Returns can only be requested for arrived orders",
+      });
+      return;
+    }
+
+    let returnRequest: IReturnRequest;
+    try {
+      returnRequest = await recordReturnRequest(commande._id, userId, products, {
+        reason,
+        description: description?.trim(),
+        evidence: files.map((file) => file.path.replace(/\\/g, "/")),
+      });
+    } catch (err: unknown) {
+      if (err instanceof ReturnNotAllowedError) {
+        res.status(400).json({
+          success: false,
+          message: err.message,
+        });
+        return;
+      }
+      throw err;
+    }
+
+    const user = await User.findById(userId);
+    const message = `Demande de retour de ${user ? `${user.firstName} ${user.lastName}` : "un client"} - ${returnRequest.products.length} produit(s)`;
+
+    const notification = new Notification({
+      idSender: userId,
+      idReceiver: commande.idSupplier,
+      type: "return_request",
+      message: message,
+      isRead: false,
+    });
+
+    await notification.save();
+
+    // Send Socket.io notification to supplier
+    if (io) {
+      io.to(`supplier_${commande.idSupplier.toString()}`).emit("newReturnRequest", {
+        returnId: returnRequest._id.toString(),
+        orderId: commande._id.toString(),
+        reason,
+        message: message,
+        notificationId: notification._id.toString(),
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Return request created successfully",
+      data: withEvidenceUrls(returnRequest),
+    });
+  } catch (err: unknown) {
+    console.error("Create return request error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get return requests created by the client
+export const getClientReturns = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const returns = await ReturnRequest.find({ idBuyer: userId })
+      .populate("idSupplier", "firstName lastName email phone")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        returns: returns.map(withEvidenceUrls),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get client returns error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get return requests received by the supplier
+export const getSupplierReturns = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const filter: QueryFilter<IReturnRequest> = { idSupplier: userId };
+    const { status } = req.query;
+    if (typeof status === "string" && ["pending", "accepted", "rejected"].includes(status)) {
+      filter.status = status;
+    }
+
+    const returns = await ReturnRequest.find(filter)
+      .populate("idBuyer", "firstName lastName email phone")
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        returns: returns.map(withEvidenceUrls),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get supplier returns error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Get return requests for one order (buyer or supplier)
+export const getReturnsByCommande = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { commandeId } = req.params;
+
+    const commande = await Commande.findById(commandeId);
+    if (!commande) {
+      res.status(404).json({
+        success: false,
+        message: "Commande not found",
+      });
+      return;
+    }
+
+    if (commande.idBuyer.toString() !== userId && commande.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "You can only view returns for your own orders",
+      });
+      return;
+    }
+
+    const returns = await ReturnRequest.find({ id_commande: commandeId }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        returns: returns.map(withEvidenceUrls),
+      },
+    });
+  } catch (err: unknown) {
+    console.error("Get returns by commande error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Accept a pending return request and put the returned quantities back into stock (supplier only)
+export const acceptReturnRequest = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { returnId } = req.params;
+
+    const existing = await ReturnRequest.findById(returnId);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: "Return request not found",
+      });
+      return;
+    }
+
+    if (existing.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the supplier can accept this return request",
+      });
+      return;
+    }
+
+    let returnRequest: IReturnRequest | null;
+    const session = await mongoose.startSession();
+    try {
+      returnRequest = await session.withTransaction(async () => {
+        // Conditional on "pending" so a request is never re-credited twice
+        const returnRequest = await ReturnRequest.findOneAndUpdate(
+          { _id: returnId, status: "pending" },
+          { $set: { status: "accepted", resolvedAt: new Date() } },
+          { new: true, session }
+        );
+        if (returnRequest) {
+          const quantitiesAfter = await restoreStock(returnRequest.products, session);
+          await recordMovements(
+            orderMovementEntries(
+              "return",
+              returnRequest.idSupplier,
+              returnRequest.products,
+              quantitiesAfter,
+              { id: userId, role: "supplier" },
+              { orderId: returnRequest.id_commande, returnId: returnRequest._id }
+            ),
+            session
+          );
+        }
+        return returnRequest;
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    if (!returnRequest) {
+      res.status(400).json({
+        success: false,
+        message: "Only pending return requests can be accepted",
+      });
+      return;
+    }
+
+    const message = "Votre demande de retour a été acceptée";
+
+    const notification = new Notification({
+      idSender: userId,
+      idReceiver: returnRequest.idBuyer,
+      type: "return_request",
+      message: message,
+      isRead: false,
+    });
+
+    await notification.save();
+
+    // Send Socket.io notification to client
+    if (io) {
+      io.to(`client_${returnRequest.idBuyer.toString()}`).emit("returnRequestUpdate", {
+        returnId: returnRequest._id.toString(),
+        orderId: returnRequest.id_commande.toString(),
+        status: "accepted",
+        message: message,
+        notificationId: notification._id.toString(),
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Return request accepted successfully",
+      data: withEvidenceUrls(returnRequest),
+    });
+  } catch (err: unknown) {
+    console.error("Accept return request error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
+
+// Reject a pending return request with a reason (supplier only)
+export const rejectReturnRequest = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: "Unauthorized",
+      });
+      return;
+    }
+
+    const { returnId } = req.params;
+    const { reason } = req.body;
+
+    if (!reason || typeof reason !== "string" || reason.trim().length < 3 || reason.trim().length > 500) {
+      res.status(400).json({
+        success: false,
+        message: "A rejection reason between 3 and 500 characters is required",
+      });
+      return;
+    }
+
+    const existing = await ReturnRequest.findById(returnId);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: "Return request not found",
+      });
+      return;
+    }
+
+    if (existing.idSupplier.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the supplier can reject this return request",
+      });
+      return;
+    }
+
+    const returnRequest = await ReturnRequest.findOneAndUpdate(
+      { _id: returnId, status: "pending" },
+      { $set: { status: "rejected", supplierResponse: reason.trim(), resolvedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!returnRequest) {
+      res.status(400).json({
+        success: false,
+        message: "Only pending return requests can be rejected",
+      });
+      return;
+    }
+
+    const message = `Votre demande de retour a été refusée. Motif : ${reason.trim()}`;
+
+    const notification = new Notification({
+      idSender: userId,
+      idReceiver: returnRequest.idBuyer,
+      type: "return_request",
+      message: message,
+      isRead: false,
+    });
+
+    await notification.save();
+
+    // Send Socket.io notification to client
+    if (io) {
+      io.to(`client_${returnRequest.idBuyer.toString()}`).emit("returnRequestUpdate", {
+        returnId: returnRequest._id.toString(),
+        orderId: returnRequest.id_commande.toString(),
+        status: "rejected",
+        reason: reason.trim(),
+        message: message,
+        notificationId: notification._id.toString(),
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Return request rejected successfully",
+      data: withEvidenceUrls(returnRequest),
+    });
+  } catch (err: unknown) {
+    console.error("Reject return request error:", err);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error",
+    });
+  }
+};
@@ -0,0 +1,81 @@
+import { Router } from "express";
+import multer from "multer";
+import path from "path";
+import {
+  createReturnRequest,
+  getClientReturns,
+  getSupplierReturns,
+  getReturnsByCommande,
+  acceptReturnRequest,
+  rejectReturnRequest,
+} from "./Return.controller";
+import { authenticateToken } from "../../middleware/auth.middleware";
+import { requireClient, requireSupplier } from "../../middleware/role.middleware";
+import {
+  validateUploadedFiles,
+  ALLOWED_IMAGE_EXTENSIONS,
+  ALLOWED_DOCUMENT_EXTENSIONS,
+} from "../../middleware/fileSecurity.middleware";
+import { fileUploadRateLimiter } from "../../middleware/rateLimit.middleware";
+import { uploadStorage } from "../../utils/storage.service";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+const returnsDir = "uploads/returns";
+
+// Configure multer for return evidence uploads (photos and PDF)
+const returnStorage = uploadStorage({
+  destination: (req, file, cb) => {
+    cb(null, returnsDir);
+  },
+  filename: (req, file, cb) => {
+    const userId = (req as any).userId || "unknown";
+    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+    const ext = path.extname(file.originalname);
+    cb(null, `${userId}-return-${uniqueSuffix}${ext}`);
+  },
+});
+
+const returnFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (file.mimetype.startsWith("image/") || file.mimetype === "application/pdf") {
+    cb(null, true);
+  } else {
+    cb(new Error("Only image or PDF files are allowed as return evidence"));
+  }
+};
+
+const uploadReturnMulter = multer({
+  storage: returnStorage,
+  fileFilter: returnFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+  },
+});
+
+// Create return request with evidence (clients only)
+router.post(
+  "/",
+  requireClient,
+  fileUploadRateLimiter,
+  uploadReturnMulter.array("evidence", 5),
+  validateUploadedFiles([...ALLOWED_IMAGE_EXTENSIONS, ...ALLOWED_DOCUMENT_EXTENSIONS], 5),
+  createReturnRequest
+);
+
+// Get return requests of the current client
+router.get("/client", requireClient, getClientReturns);
+
+// Get return requests received by the current supplier (?status=pending|accepted|rejected)
+router.get("/supplier", requireSupplier, getSupplierReturns);
+
+// Get return requests for one order (buyer or supplier)
+router.get("/commande/:commandeId", getReturnsByCommande);
+
+// Accept / reject a return request (suppliers only)
+router.put("/:returnId/accept", requireSupplier, acceptReturnRequest);
+router.put("/:returnId/reject", requireSupplier, rejectReturnRequest);
+
+export default router;
@@ -9,6 +9,9 @@ import Attachment from "../../entity/Attachment";
 import { registerSchema } from "../Client/validation";
 import { AppConfig } from "../../config/app.config";
 import { AuthRequest } from "../../middleware/auth.middleware";
+import { releaseFiles, paperDocumentUrl } from "../../utils/fileStore.service";
+import { signedFileUrl, optionalFileUrl } from "../../utils/storage.service";
+import { imageUrls } from "../../utils/image.service";
 
 // Register supplier function
 export const registerSupplier = async (req: Request, res: Response): Promise<void> => {
@@ -186,12 +189,14 @@ export const uploadDocuments = async (req: Request, res: Response): Promise<void
     // Check if documents already exist for this user
     const existingPapier = await Papier.findOne({ id_user: userId });
     if (existingPapier) {
-      // Update existing documents
+      // Update existing documents, then delete the replaced files
+      const previousFiles = [existingPapier.Tax_number, existingPapier.identity, existingPapier.commercial_register];
       existingPapier.type = "supplier";
       existingPapier.Tax_number = taxNumberFile.path;
       existingPapier.identity = identityFile.path;
       existingPapier.commercial_register = commercialRegisterFile.path;
       await existingPapier.save();
+      await releaseFiles(previousFiles);
 
       res.status(200).json({
         success: true,
@@ -199,9 +204,9 @@ export const uploadDocuments = async (req: Request, res: Response): Promise<void
         data: {
           id: existingPapier._id,
           type: existingPapier.type,
-          Tax_number: existingPapier.Tax_number,
-          identity: existingPapier.identity,
-          commercial_register: existingPapier.commercial_register,
+          Tax_number: paperDocumentUrl(existingPapier, "Tax_number"),
+          identity: paperDocumentUrl(existingPapier, "identity"),
+          commercial_register: paperDocumentUrl(existingPapier, "commercial_register"),
         },
       });
     } else {
@@ -222,9 +227,9 @@ export const uploadDocuments = async (req: Request, res: Response): Promise<void
         data: {
           id: newPapier._id,
           type: newPapier.type,
-          Tax_number: newPapier.Tax_number,
-          identity: newPapier.identity,
-          commercial_register: newPapier.commercial_register,
+          Tax_number: paperDocumentUrl(newPapier, "Tax_number"),
+          identity: paperDocumentUrl(newPapier, "identity"),
+          commercial_register: paperDocumentUrl(newPapier, "commercial_register"),
         },
       });
     }
@@ -256,9 +261,9 @@ export const getDocuments = async (req: Request, res: Response): Promise<void> =
       success: true,
       data: {
         id: papier._id,
-        Tax_number: papier.Tax_number,
-        identity: papier.identity,
-        commercial_register: papier.commercial_register,
+        Tax_number: paperDocumentUrl(papier, "Tax_number"),
+        identity: paperDocumentUrl(papier, "identity"),
+        commercial_register: paperDocumentUrl(papier, "commercial_register"),
       },
     });
   } catch (err: unknown) {
@@ -282,7 +287,7 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const { firstName, lastName, email, phone, address, rip_post, rip_bank, methode_payment } = req.body;
+    const { firstName, lastName, email, phone, address, rip_post, rip_bank, methode_payment, lowStockEmailAlerts } = req.body;
 
     // Find user
     const user = await User.findById(userId);
@@ -441,6 +446,17 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
       }
     }
 
+    if (lowStockEmailAlerts !== undefined) {
+      if (typeof lowStockEmailAlerts !== "boolean") {
+        res.status(400).json({
+          success: false,
+          message: "lowStockEmailAlerts must be a boolean",
+        });
+        return;
+      }
+      user.lowStockEmailAlerts = lowStockEmailAlerts;
+    }
+
     await user.save();
 
     res.status(200).json({
@@ -458,6 +474,7 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
         rip_post: user.rip_post || "",
         rip_bank: user.rip_bank || "",
         methode_payment: user.methode_payment || [],
+        lowStockEmailAlerts: user.lowStockEmailAlerts || false,
       },
     });
   } catch (err: unknown) {
@@ -630,16 +647,18 @@ export const uploadProfileImage = async (req: AuthRequest, res: Response): Promi
     // Check if attachment already exists
     const existingAttachment = await Attachment.findOne({ id_user: userId });
     if (existingAttachment) {
-      // Update existing attachment
+      // Update existing attachment, then delete the replaced image
+      const previousImage = existingAttachment.image;
       existingAttachment.image = file.path.replace(/\\/g, "/");
       await existingAttachment.save();
+      await releaseFiles([previousImage]);
 
       res.status(200).json({
         success: true,
         message: "Profile image updated successfully",
         data: {
           id: existingAttachment._id,
-          image: existingAttachment.image,
+          image: signedFileUrl(existingAttachment.image),
         },
       });
     } else {
@@ -656,7 +675,7 @@ export const uploadProfileImage = async (req: AuthRequest, res: Response): Promi
         message: "Profile image uploaded successfully",
         data: {
           id: newAttachment._id,
-          image: newAttachment.image,
+          image: signedFileUrl(newAttachment.image),
         },
       });
     }
@@ -691,14 +710,11 @@ export const getProfileImage = async (req: AuthRequest, res: Response): Promise<
       return;
     }
 
-    // Ensure the path uses forward slashes (normalize Windows paths)
-    const imagePath = attachment.image.replace(/\\/g, "/");
-
     res.status(200).json({
       success: true,
       data: {
         id: attachment._id,
-        image: imagePath,
+        image: signedFileUrl(attachment.image),
       },
     });
   } catch (err: unknown) {
@@ -744,7 +760,7 @@ export const getSupplierDetails = async (req: Request, res: Response): Promise<v
 
     // Get supplier profile image
     const attachment = await Attachment.findOne({ id_user: supplier._id });
-    const profileImage = attachment ? attachment.image : null;
+    const profileImage = optionalFileUrl(attachment?.image);
 
     // Get supplier products (only active products with quantity > 0)
     const products = await Product.find({ supplierId: supplier._id, quantity: { $gt: 0 } })
@@ -797,7 +813,7 @@ export const getSupplierDetails = async (req: Request, res: Response): Promise<v
           category: product.category,
           brand: product.brand,
           productType: product.productType,
-          images: product.images,
+          images: product.images.map((image) => imageUrls(image)),
           createdAt: product.createdAt,
         })),
       },
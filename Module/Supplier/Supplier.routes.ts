@@ -20,6 +20,7 @@ import {
 } from "../../middleware/validation.middleware";
 import {
   validateUploadedFiles,
+  discardUploadsOnError,
   ALLOWED_DOCUMENT_EXTENSIONS,
   ALLOWED_IMAGE_EXTENSIONS,
 } from "../../middleware/fileSecurity.middleware";
@@ -29,11 +30,12 @@ import {
   fileUploadRateLimiter,
   profileUpdateRateLimiter,
 } from "../../middleware/rateLimit.middleware";
+import { uploadStorage } from "../../utils/storage.service";
 
 const router = Router();
 
 // Configure multer for file uploads
-const storage = multer.diskStorage({
+const storage = uploadStorage({
   destination: (req, file, cb) => {
     cb(null, "uploads/documents/");
   },
@@ -62,7 +64,7 @@ const upload = multer({
 });
 
 // Configure multer for profile image uploads
-const profileImageStorage = multer.diskStorage({
+const profileImageStorage = uploadStorage({
   destination: (req, file, cb) => {
     cb(null, "uploads/profile/");
   },
@@ -99,6 +101,7 @@ router.post(
   "/documents",
   authenticateToken,
   fileUploadRateLimiter,
+  discardUploadsOnError,
   upload.fields([
     { name: "Tax_number", maxCount: 1 },
     { name: "identity", maxCount: 1 },
@@ -117,6 +120,7 @@ router.post(
   authenticateToken,
   requireSupplier,
   fileUploadRateLimiter,
+  discardUploadsOnError,
   uploadProfileImageMulter.single("image"),
   validateUploadedFiles(ALLOWED_IMAGE_EXTENSIONS, 1),
   uploadProfileImage
@@ -7,6 +7,12 @@ import commandeRoutes from "../Module/Commande/Commande.routes";
 import notificationRoutes from "../Module/Notification/Notification.routes";
 import adminRoutes from "../Module/Admin/Admin.routes";
 import paymentRoutes from "../Module/Payment/Payment.routes";
+import returnRoutes from "../Module/Return/Return.routes";
+import cartRoutes from "../Module/Cart/Cart.routes";
+import quoteRoutes from "../Module/Quote/Quote.routes";
+import promotionRoutes from "../Module/Promotion/Promotion.routes";
+import inventoryRoutes from "../Module/Inventory/Inventory.routes";
+import fileRoutes from "../Module/File/File.routes";
 
 const router = Router();
 
@@ -36,5 +42,23 @@ router.use("/admin", adminRoutes);
 // Payment routes
 router.use("/payments", paymentRoutes);
 
+// Return request routes
+router.use("/returns", returnRoutes);
+
+// Cart routes
+router.use("/cart", cartRoutes);
+
+// Quote (request for quote) routes
+router.use("/quotes", quoteRoutes);
+
+// Promotion and coupon routes
+router.use("/promotions", promotionRoutes);
+
+// Inventory ledger routes
+router.use("/inventory", inventoryRoutes);
+
+// Signed file links
+router.use("/files", fileRoutes);
+
 export default router;
 
@@ -6,6 +6,13 @@ interface IAppConfig {
   RefrechToken: string;
   SecretSession: string;
   UrlFront : string;
+  StorageDriver: "local" | "s3"; // Where uploads are stored, see utils/storage.service.ts
+  SignedUrlTtl: number; // Lifetime of signed file links, in seconds
+  S3Endpoint?: string; // Custom endpoint for S3-compatible servers (MinIO...)
+  S3Region: string;
+  S3Bucket?: string;
+  S3AccessKeyId?: string;
+  S3SecretAccessKey?: string;
 }
 
 export const AppConfig: IAppConfig = {
@@ -13,7 +20,14 @@ export const AppConfig: IAppConfig = {
   JwtSecret: process.env.JWT_SECRET!,
   RefrechToken: process.env.REFRECHTOKEN!,
   SecretSession : process.env.SECRETSESSION!,
-  UrlFront : process.env.URLFRONT!
+  UrlFront : process.env.URLFRONT!,
+  StorageDriver: process.env.STORAGE_DRIVER === "s3" ? "s3" : "local",
+  SignedUrlTtl: +(process.env.SIGNED_URL_TTL || 3600),
+  S3Endpoint: process.env.S3_ENDPOINT || undefined,
+  S3Region: process.env.S3_REGION || "us-east-1",
+  S3Bucket: process.env.S3_BUCKET || undefined,
+  S3AccessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+  S3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
 };
 
 const SchemaValidetionConfig = Joi.object({
@@ -22,6 +36,13 @@ const SchemaValidetionConfig = Joi.object({
   RefrechToken: Joi.string().required(),
   SecretSession: Joi.string().required(),
   UrlFront: Joi.string().required(),
+  StorageDriver: Joi.string().valid("local", "s3").required(),
+  SignedUrlTtl: Joi.number().integer().min(60).required(),
+  S3Endpoint: Joi.string().uri().optional(),
+  S3Region: Joi.string().required(),
+  S3Bucket: Joi.string().when("StorageDriver", { is: "s3", then: Joi.required() }),
+  S3AccessKeyId: Joi.string().when("StorageDriver", { is: "s3", then: Joi.required() }),
+  S3SecretAccessKey: Joi.string().when("StorageDriver", { is: "s3", then: Joi.required() }),
 });
 
 
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ICart extends Document {
+  _id: mongoose.Types.ObjectId;
+  idClient: mongoose.Types.ObjectId;
+  items: Array<{
+    productId: mongoose.Types.ObjectId;
+    variantId?: mongoose.Types.ObjectId; // Chosen variant, for products sold by variant
+    quantity: number;
+    priceAtAdd: number; // Selling price when the line was added, to flag price changes
+    addedAt: Date;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CartSchema = new Schema<ICart>(
+  {
+    idClient: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Client ID is required"],
+      unique: true, // One cart per client
+    },
+    items: [
+      {
+        productId: {
+          type: Schema.Types.ObjectId,
+          ref: "Product",
+          required: true,
+        },
+        variantId: {
+          type: Schema.Types.ObjectId,
+          required: false,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          min: [1, "Quantity must be at least 1"],
+        },
+        priceAtAdd: {
+          type: Number,
+          required: true,
+          min: [0, "Price must be positive"],
+        },
+        addedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+    collection: "carts",
+  }
+);
+
+export default mongoose.model<ICart>("Cart", CartSchema);
@@ -1,17 +1,64 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export type PaymentMethod = "cash" | "by post" | "bank";
+
+export type CommandeStatus = "en cours" | "on route" | "arrived" | "cancelled" | "refused";
+
+export interface ICommandeStatusChange {
+  from: CommandeStatus | null; // null for the creation entry
+  to: CommandeStatus;
+  changedBy: mongoose.Types.ObjectId;
+  changedByRole: string;
+  note?: string;
+  changedAt: Date;
+}
+
+export interface ICommandePromotion {
+  promotionId: mongoose.Types.ObjectId;
+  name: string;
+  code?: string;
+  discountType: "percentage" | "fixed";
+  value: number;
+  amount: number; // DA taken off the order by this promotion
+}
+
+// Stock lot a quantity of an order line was taken from
+export interface ILotAllocation {
+  lotId: mongoose.Types.ObjectId;
+  lotNumber: string;
+  expiryDate: Date;
+  quantity: number;
+}
+
 export interface ICommande extends Document {
   _id: mongoose.Types.ObjectId;
-  total: number;
+  total: number; // Amount due, after discounts
+  subtotal?: number; // Sum of the lines before discounts
+  discount: number; // subtotal - total
+  promotions: ICommandePromotion[]; // Promotions and coupons applied when the order was created
   products: Array<{
     productId: mongoose.Types.ObjectId;
+    variantId?: mongoose.Types.ObjectId; // Variant ordered, for products sold by variant
+    reference?: string; // Product or variant reference at order time
     name: string;
     price: number;
     quantity: number;
+    discount: number; // Part of the order discount allocated to this line
+    lots: ILotAllocation[]; // Lots the quantity was taken from, for lot-tracked stock
   }>;
   idBuyer: mongoose.Types.ObjectId;
   idSupplier: mongoose.Types.ObjectId;
-  status: "en cours" | "on route" | "arrived";
+  status: CommandeStatus;
+  statusReason?: string; // Reason given when the supplier refuses the order
+  statusHistory: ICommandeStatusChange[]; // Every status transition, oldest first
+  checkoutId?: string; // Shared by all orders created from the same multi-supplier checkout
+  quoteId?: mongoose.Types.ObjectId; // Set when the order was created from an accepted quote
+  paymentMethod?: PaymentMethod; // Chosen by the buyer among the supplier's methode_payment
+  amountPaid: number; // Sum of confirmed payments
+  paymentStatus: "unpaid" | "partially_paid" | "paid";
+  outstandingBalance: number; // Virtual: total - amountPaid
+  invoiceNumber?: string; // Assigned on first invoice download, e.g. "FAC-000042"
+  deliveryNoteNumber?: string; // Assigned on first delivery note download, e.g. "BL-000042"
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,6 +70,48 @@ const CommandeSchema = new Schema<ICommande>(
       required: [true, "Total is required"],
       min: [0, "Total must be positive"],
     },
+    subtotal: {
+      type: Number,
+      required: false,
+      min: [0, "Subtotal must be positive"],
+    },
+    discount: {
+      type: Number,
+      default: 0,
+      min: [0, "Discount cannot be negative"],
+    },
+    promotions: [
+      {
+        _id: false,
+        promotionId: {
+          type: Schema.Types.ObjectId,
+          ref: "Promotion",
+          required: true,
+        },
+        name: {
+          type: String,
+          required: true,
+        },
+        code: {
+          type: String,
+          required: false,
+        },
+        discountType: {
+          type: String,
+          enum: ["percentage", "fixed"],
+          required: true,
+        },
+        value: {
+          type: Number,
+          required: true,
+        },
+        amount: {
+          type: Number,
+          required: true,
+          min: [0, "Discount amount cannot be negative"],
+        },
+      },
+    ],
     products: [
       {
         productId: {
@@ -30,6 +119,14 @@ const CommandeSchema = new Schema<ICommande>(
           ref: "Product",
           required: true,
         },
+        variantId: {
+          type: Schema.Types.ObjectId,
+          required: false,
+        },
+        reference: {
+          type: String,
+          required: false,
+        },
         name: {
           type: String,
           required: true,
@@ -44,6 +141,33 @@ const CommandeSchema = new Schema<ICommande>(
           required: true,
           min: [1, "Quantity must be at least 1"],
         },
+        discount: {
+          type: Number,
+          default: 0,
+          min: [0, "Discount cannot be negative"],
+        },
+        lots: [
+          {
+            _id: false,
+            lotId: {
+              type: Schema.Types.ObjectId,
+              required: true,
+            },
+            lotNumber: {
+              type: String,
+              required: true,
+            },
+            expiryDate: {
+              type: Date,
+              required: true,
+            },
+            quantity: {
+              type: Number,
+              required: true,
+              min: [1, "Quantity must be at least 1"],
+            },
+          },
+        ],
       },
     ],
     idBuyer: {
@@ -58,21 +182,111 @@ const CommandeSchema = new Schema<ICommande>(
     },
     status: {
       type: String,
-      enum: ["en cours", "on route", "arrived"],
+      enum: ["en cours", "on route", "arrived", "cancelled", "refused"],
       default: "en cours",
     },
+    statusReason: {
+      type: String,
+      required: false,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+    statusHistory: [
+      {
+        from: {
+          type: String,
+          enum: ["en cours", "on route", "arrived", "cancelled", "refused", null],
+          default: null,
+        },
+        to: {
+          type: String,
+          enum: ["en cours", "on route", "arrived", "cancelled", "refused"],
+          required: true,
+        },
+        changedBy: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        changedByRole: {
+          type: String,
+          required: true,
+        },
+        note: {
+          type: String,
+          trim: true,
+          maxlength: [500, "Note cannot exceed 500 characters"],
+        },
+        changedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    checkoutId: {
+      type: String,
+      required: false,
+    },
+    quoteId: {
+      type: Schema.Types.ObjectId,
+      ref: "Quote",
+      required: false,
+    },
+    paymentMethod: {
+      type: String,
+      enum: ["cash", "by post", "bank"],
+      required: false,
+    },
+    amountPaid: {
+      type: Number,
+      default: 0,
+      min: [0, "Amount paid cannot be negative"],
+    },
+    paymentStatus: {
+      type: String,
+      enum: ["unpaid", "partially_paid", "paid"],
+      default: "unpaid",
+    },
+    invoiceNumber: {
+      type: String,
+      required: false,
+    },
+    deliveryNoteNumber: {
+      type: String,
+      required: false,
+    },
   },
   {
     timestamps: true,
     collection: "commandes",
+    id: false,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
   }
 );
 
+CommandeSchema.virtual("outstandingBalance").get(function (this: ICommande) {
+  return Math.max(0, Math.round((this.total - (this.amountPaid || 0)) * 100) / 100);
+});
+
 // Indexes for faster queries
 CommandeSchema.index({ idBuyer: 1 });
 CommandeSchema.index({ idSupplier: 1 });
 CommandeSchema.index({ status: 1 });
 CommandeSchema.index({ createdAt: -1 });
+CommandeSchema.index({ checkoutId: 1 });
+CommandeSchema.index({ paymentStatus: 1 });
+CommandeSchema.index({ "promotions.promotionId": 1, idBuyer: 1 });
+
+// Document numbers are sequential per supplier and must never be shared by two orders
+CommandeSchema.index(
+  { idSupplier: 1, invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $exists: true } } }
+);
+CommandeSchema.index(
+  { idSupplier: 1, deliveryNoteNumber: 1 },
+  { unique: true, partialFilterExpression: { deliveryNoteNumber: { $exists: true } } }
+);
 
 export default mongoose.model<ICommande>("Commande", CommandeSchema);
 
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IDocumentCounter extends Document {
+  _id: mongoose.Types.ObjectId;
+  supplierId: mongoose.Types.ObjectId;
+  type: "invoice" | "delivery_note";
+  seq: number; // Last number handed out, only ever incremented
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DocumentCounterSchema = new Schema<IDocumentCounter>(
+  {
+    supplierId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Supplier ID is required"],
+    },
+    type: {
+      type: String,
+      required: [true, "Type is required"],
+      enum: ["invoice", "delivery_note"],
+    },
+    seq: {
+      type: Number,
+      default: 0,
+      min: [0, "Sequence cannot be negative"],
+    },
+  },
+  {
+    timestamps: true,
+    collection: "document_counters",
+  }
+);
+
+// One counter per supplier and document type
+DocumentCounterSchema.index({ supplierId: 1, type: 1 }, { unique: true });
+
+export default mongoose.model<IDocumentCounter>("DocumentCounter", DocumentCounterSchema);
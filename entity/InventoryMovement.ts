@@ -0,0 +1,129 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { ILotAllocation } from "./Commande";
+
+export type InventoryMovementType = "initial" | "adjustment" | "import" | "sale" | "cancellation" | "return";
+
+// One change of the stock of a product (or of one of its variants). Movements are never updated or deleted.
+export interface IInventoryMovement extends Document {
+  _id: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;
+  idSupplier: mongoose.Types.ObjectId;
+  name: string; // Product (and variant) name at the time of the movement
+  reference?: string;
+  type: InventoryMovementType;
+  delta: number; // Units added (positive) or removed (negative)
+  quantityAfter: number; // Stock of the product or variant once the movement applied
+  actor: mongoose.Types.ObjectId; // User who caused the movement
+  actorRole: string;
+  orderId?: mongoose.Types.ObjectId; // Sales and cancellations
+  returnId?: mongoose.Types.ObjectId; // Accepted returns
+  lots: ILotAllocation[]; // Lots moved, for lot-tracked stock
+  note?: string;
+  createdAt: Date;
+}
+
+const InventoryMovementSchema = new Schema<IInventoryMovement>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: [true, "Product ID is required"],
+    },
+    variantId: {
+      type: Schema.Types.ObjectId,
+      required: false,
+    },
+    idSupplier: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Supplier ID is required"],
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    reference: {
+      type: String,
+      required: false,
+    },
+    type: {
+      type: String,
+      enum: ["initial", "adjustment", "import", "sale", "cancellation", "return"],
+      required: [true, "Movement type is required"],
+    },
+    delta: {
+      type: Number,
+      required: true,
+    },
+    quantityAfter: {
+      type: Number,
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Actor is required"],
+    },
+    actorRole: {
+      type: String,
+      required: true,
+    },
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: "Commande",
+      required: false,
+    },
+    returnId: {
+      type: Schema.Types.ObjectId,
+      ref: "ReturnRequest",
+      required: false,
+    },
+    lots: [
+      {
+        _id: false,
+        lotId: {
+          type: Schema.Types.ObjectId,
+          required: true,
+        },
+        lotNumber: {
+          type: String,
+          required: true,
+        },
+        expiryDate: {
+          type: Date,
+          required: true,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+        },
+      },
+    ],
+    note: {
+      type: String,
+      required: false,
+      trim: true,
+      maxlength: [500, "Note cannot exceed 500 characters"],
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "inventory_movements",
+  }
+);
+
+// The ledger is append-only
+InventoryMovementSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "findOneAndReplace", "deleteOne", "deleteMany", "findOneAndDelete"],
+  function () {
+    throw new Error("Inventory movements cannot be modified or deleted");
+  }
+);
+
+// Indexes for faster queries
+InventoryMovementSchema.index({ productId: 1, createdAt: -1 });
+InventoryMovementSchema.index({ idSupplier: 1, createdAt: -1 });
+InventoryMovementSchema.index({ orderId: 1 });
+
+export default mongoose.model<IInventoryMovement>("InventoryMovement", InventoryMovementSchema);
@@ -26,7 +26,7 @@ const NotificationSchema = new Schema<INotification>(
     type: {
       type: String,
       required: [true, "Type is required"],
-      enum: ["order_status", "new_order", "system"],
+      enum: ["order_status", "new_order", "return_request", "payment", "quote", "low_stock", "system"],
       default: "system",
     },
     message: {
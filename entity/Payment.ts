@@ -6,6 +6,9 @@ export interface IPayment extends Document {
   id_owner: mongoose.Types.ObjectId;
   total: number;
   image: string;
+  status: "pending" | "confirmed" | "rejected";
+  rejectionReason?: string; // Reason given by the supplier when rejecting the proof
+  reviewedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -16,7 +19,6 @@ const PaymentSchema = new Schema<IPayment>(
       type: Schema.Types.ObjectId,
       ref: "Commande",
       required: [true, "Commande ID is required"],
-      unique: true, // One payment per order
     },
     id_owner: {
       type: Schema.Types.ObjectId,
@@ -32,6 +34,20 @@ const PaymentSchema = new Schema<IPayment>(
       type: String,
       required: [true, "Payment image is required"],
     },
+    status: {
+      type: String,
+      enum: ["pending", "confirmed", "rejected"],
+      default: "pending",
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Rejection reason cannot exceed 500 characters"],
+    },
+    reviewedAt: {
+      type: Date,
+      required: false,
+    },
   },
   {
     timestamps: true,
@@ -40,7 +56,7 @@ const PaymentSchema = new Schema<IPayment>(
 );
 
 // Indexes for faster queries
-PaymentSchema.index({ id_commande: 1 });
+PaymentSchema.index({ id_commande: 1, status: 1 });
 PaymentSchema.index({ id_owner: 1 });
 PaymentSchema.index({ createdAt: -1 });
 
@@ -1,18 +1,46 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { buildSearchGrams } from "../utils/search.service";
+
+export interface IProductVariant {
+  _id: mongoose.Types.ObjectId;
+  reference: string; // Variant SKU
+  label: string; // Shown to clients, e.g. "Flacon 500 mL"
+  packSize?: string;
+  concentration?: string;
+  purchasePrice: number;
+  sellingPrice: number;
+  quantity: number;
+  images: string[]; // Same format as the product images
+}
+
+export interface IProductLot {
+  _id: mongoose.Types.ObjectId;
+  lotNumber: string; // Manufacturer's lot / batch number
+  expiryDate: Date;
+  quantity: number;
+  variantId?: mongoose.Types.ObjectId; // Variant the lot belongs to, for products sold by variant
+}
 
 export interface IProduct extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
+  reference?: string; // Supplier's catalogue reference (e.g. "GLU-500")
+  description?: string;
   purchasePrice: number; // prix d'achat
   sellingPrice: number; // prix de vente
-  quantity: number;
+  priceTiers: Array<{ minQuantity: number; unitPrice: number }>; // Volume prices, applied from minQuantity units
+  quantity: number; // With variants: total stock of the variants. With lots: total of the lots
+  variants: IProductVariant[]; // Ordered individually when present
+  lots: IProductLot[]; // Stock tracked by lot, allocated to orders first-expired first-out
+  lowStockThreshold?: number; // Alert the supplier when a sale brings the stock (of each variant) down to this level
   category: string;
   deliveryTime: string; // délai de livraison
   brand: string;
   productType: string; // "Labo médical" or "labo d'ana pathologies"
-  images: string[]; // Array of image paths
+  images: string[]; // Array of image paths (processed images point to their "-full.jpg" size, see utils/image.service.ts)
   video?: string; // Video file path (optional)
   supplierId: mongoose.Types.ObjectId; // Reference to the supplier who created this product
+  searchGrams: string[]; // Trigrams of the searchable fields, maintained on validate
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,6 +54,18 @@ const ProductSchema = new Schema<IProduct>(
       minlength: [2, "Product name must be at least 2 characters"],
       maxlength: [200, "Product name cannot exceed 200 characters"],
     },
+    reference: {
+      type: String,
+      required: false,
+      trim: true,
+      maxlength: [100, "Reference cannot exceed 100 characters"],
+    },
+    description: {
+      type: String,
+      required: false,
+      trim: true,
+      maxlength: [2000, "Description cannot exceed 2000 characters"],
+    },
     purchasePrice: {
       type: Number,
       required: [true, "Purchase price (prix d'achat) is required"],
@@ -36,6 +76,94 @@ const ProductSchema = new Schema<IProduct>(
       required: [true, "Selling price (prix de vente) is required"],
       min: [0, "Selling price cannot be negative"],
     },
+    priceTiers: {
+      type: [
+        {
+          _id: false,
+          minQuantity: {
+            type: Number,
+            required: true,
+            min: [2, "Tier minimum quantity must be at least 2"],
+          },
+          unitPrice: {
+            type: Number,
+            required: true,
+            min: [0, "Tier unit price cannot be negative"],
+          },
+        },
+      ],
+      default: [],
+    },
+    variants: [
+      {
+        reference: {
+          type: String,
+          required: [true, "Variant reference is required"],
+          trim: true,
+          maxlength: [100, "Reference cannot exceed 100 characters"],
+        },
+        label: {
+          type: String,
+          required: [true, "Variant label is required"],
+          trim: true,
+          maxlength: [100, "Variant label cannot exceed 100 characters"],
+        },
+        packSize: {
+          type: String,
+          trim: true,
+          maxlength: [50, "Pack size cannot exceed 50 characters"],
+        },
+        concentration: {
+          type: String,
+          trim: true,
+          maxlength: [50, "Concentration cannot exceed 50 characters"],
+        },
+        purchasePrice: {
+          type: Number,
+          required: true,
+          min: [0, "Purchase price cannot be negative"],
+        },
+        sellingPrice: {
+          type: Number,
+          required: true,
+          min: [0, "Selling price cannot be negative"],
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          min: [0, "Quantity cannot be negative"],
+          default: 0,
+        },
+        images: {
+          type: [String],
+          default: [],
+        },
+      },
+    ],
+    lots: [
+      {
+        lotNumber: {
+          type: String,
+          required: [true, "Lot number is required"],
+          trim: true,
+          maxlength: [50, "Lot number cannot exceed 50 characters"],
+        },
+        expiryDate: {
+          type: Date,
+          required: [true, "Expiry date is required"],
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          min: [0, "Quantity cannot be negative"],
+          default: 0,
+        },
+        variantId: {
+          type: Schema.Types.ObjectId,
+          required: false,
+        },
+      },
+    ],
     images: {
       type: [String],
       default: [],
@@ -50,6 +178,11 @@ const ProductSchema = new Schema<IProduct>(
       min: [0, "Quantity cannot be negative"],
       default: 0,
     },
+    lowStockThreshold: {
+      type: Number,
+      required: false,
+      min: [0, "Low-stock threshold cannot be negative"],
+    },
     category: {
       type: String,
       required: [true, "Category is required"],
@@ -77,17 +210,81 @@ const ProductSchema = new Schema<IProduct>(
       required: [true, "Supplier ID is required"],
       index: true,
     },
+    searchGrams: {
+      type: [String],
+      default: [],
+      select: false,
+    },
   },
   {
     timestamps: true,
+    // Saves fail with a VersionError if the product changed since it was loaded, e.g. stock taken by an order
+    optimisticConcurrency: true,
   }
 );
 
+// A product or variant tracked by lot holds exactly the stock of its lots.
+// Runs before the variants hook so variant totals are up to date.
+ProductSchema.pre("validate", function () {
+  if (!this.lots || this.lots.length === 0) return;
+
+  const lotTotal = (variantId?: mongoose.Types.ObjectId) => {
+    const lots = this.lots.filter((lot) => String(lot.variantId || "") === String(variantId || ""));
+    return lots.length > 0 ? lots.reduce((sum, lot) => sum + lot.quantity, 0) : null;
+  };
+
+  if (this.variants && this.variants.length > 0) {
+    this.variants.forEach((variant) => {
+      const total = lotTotal(variant._id);
+      if (total !== null && variant.quantity !== total) {
+        variant.quantity = total;
+        this.markModified("variants");
+      }
+    });
+  } else {
+    const total = lotTotal();
+    if (total !== null) {
+      this.quantity = total;
+    }
+  }
+});
+
+// A product with variants shows its total stock and its lowest prices ("à partir de");
+// volume tiers only apply to products sold without variants
+ProductSchema.pre("validate", function () {
+  if (this.variants && this.variants.length > 0 && (this.isNew || this.isModified("variants"))) {
+    this.quantity = this.variants.reduce((sum, v) => sum + v.quantity, 0);
+    this.sellingPrice = Math.min(...this.variants.map((v) => v.sellingPrice));
+    this.purchasePrice = Math.min(...this.variants.map((v) => v.purchasePrice));
+    this.priceTiers = [];
+  }
+});
+
+// Keep the search trigrams in sync with the searchable fields (also runs for insertMany).
+// Variant SKUs and labels are searchable too.
+ProductSchema.pre("validate", function () {
+  if (this.isNew || ["name", "reference", "description", "brand", "category", "variants"].some((field) => this.isModified(field))) {
+    this.searchGrams = buildSearchGrams({
+      name: this.name,
+      brand: this.brand,
+      category: this.category,
+      reference: this.reference,
+      description: this.description,
+      variants: (this.variants || []).map((v) => ({ reference: v.reference, label: v.label })),
+    });
+  }
+});
+
 // Indexes for faster queries
 ProductSchema.index({ supplierId: 1 });
 ProductSchema.index({ category: 1 });
 ProductSchema.index({ productType: 1 });
-ProductSchema.index({ name: "text" }); // Text search index
+ProductSchema.index({ productType: 1, quantity: -1, createdAt: -1 }); // Default catalog sort
+ProductSchema.index({ brand: 1 });
+ProductSchema.index({ sellingPrice: 1 });
+ProductSchema.index({ searchGrams: 1 }); // Search candidates, see utils/search.service.ts
+ProductSchema.index({ supplierId: 1, reference: 1 });
+ProductSchema.index({ supplierId: 1, "lots.expiryDate": 1 }); // Expiring lots
 
 export default mongoose.model<IProduct>("Product", ProductSchema);
 
@@ -0,0 +1,121 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type DiscountType = "percentage" | "fixed";
+export type PromotionScope = "store" | "product" | "category";
+
+export interface IPromotion extends Document {
+  _id: mongoose.Types.ObjectId;
+  idSupplier: mongoose.Types.ObjectId;
+  name: string;
+  code?: string; // Coupon code typed by the client; promotions without a code apply automatically
+  discountType: DiscountType;
+  value: number; // Percentage (1-100) or fixed amount in DA taken off the eligible lines
+  scope: PromotionScope;
+  productIds: mongoose.Types.ObjectId[]; // Eligible products when scope is "product"
+  categories: string[]; // Eligible categories when scope is "category"
+  minOrderAmount: number; // Minimum order subtotal before discounts
+  startsAt: Date;
+  endsAt: Date;
+  usageLimit?: number; // Maximum number of orders overall
+  perClientLimit?: number; // Maximum number of orders per client
+  usedCount: number; // Orders currently using the promotion (cancelled / refused ones are released)
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromotionSchema = new Schema<IPromotion>(
+  {
+    idSupplier: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Supplier ID is required"],
+    },
+    name: {
+      type: String,
+      required: [true, "Promotion name is required"],
+      trim: true,
+      minlength: [2, "Promotion name must be at least 2 characters"],
+      maxlength: [100, "Promotion name cannot exceed 100 characters"],
+    },
+    code: {
+      type: String,
+      required: false,
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z0-9_-]{3,30}$/, "Coupon code must be 3 to 30 letters, digits, '-' or '_'"],
+    },
+    discountType: {
+      type: String,
+      enum: ["percentage", "fixed"],
+      required: [true, "Discount type is required"],
+    },
+    value: {
+      type: Number,
+      required: [true, "Discount value is required"],
+      min: [0.01, "Discount value must be positive"],
+    },
+    scope: {
+      type: String,
+      enum: ["store", "product", "category"],
+      default: "store",
+    },
+    productIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Product",
+      },
+    ],
+    categories: {
+      type: [String],
+      default: [],
+    },
+    minOrderAmount: {
+      type: Number,
+      default: 0,
+      min: [0, "Minimum order amount cannot be negative"],
+    },
+    startsAt: {
+      type: Date,
+      required: [true, "Start date is required"],
+    },
+    endsAt: {
+      type: Date,
+      required: [true, "End date is required"],
+    },
+    usageLimit: {
+      type: Number,
+      required: false,
+      min: [1, "Usage limit must be at least 1"],
+    },
+    perClientLimit: {
+      type: Number,
+      required: false,
+      min: [1, "Per-client limit must be at least 1"],
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+      min: [0, "Used count cannot be negative"],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "promotions",
+  }
+);
+
+// Indexes for faster queries
+PromotionSchema.index({ idSupplier: 1, isActive: 1, endsAt: 1 });
+
+// A coupon code identifies a single promotion of a supplier
+PromotionSchema.index(
+  { idSupplier: 1, code: 1 },
+  { unique: true, partialFilterExpression: { code: { $exists: true } } }
+);
+
+export default mongoose.model<IPromotion>("Promotion", PromotionSchema);
@@ -0,0 +1,114 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IQuote extends Document {
+  _id: mongoose.Types.ObjectId;
+  idClient: mongoose.Types.ObjectId;
+  idSupplier: mongoose.Types.ObjectId;
+  lines: Array<{
+    productId: mongoose.Types.ObjectId;
+    variantId?: mongoose.Types.ObjectId; // Quoted variant, for products sold by variant
+    reference?: string;
+    name: string;
+    quantity: number;
+    listPrice: number; // Catalog unit price (with volume tiers) when the quote was requested
+    unitPrice?: number; // Negotiated price, set by the supplier's answer
+  }>;
+  message?: string; // Client's note with the request
+  supplierNote?: string; // Supplier's note with the answer or decline reason
+  validUntil?: Date; // The answered prices can be accepted until this date
+  status: "requested" | "answered" | "declined" | "rejected" | "accepted";
+  id_commande?: mongoose.Types.ObjectId; // Order created when the client accepts the quote
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const QuoteSchema = new Schema<IQuote>(
+  {
+    idClient: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Client ID is required"],
+    },
+    idSupplier: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Supplier ID is required"],
+    },
+    lines: {
+      type: [
+        {
+          productId: {
+            type: Schema.Types.ObjectId,
+            ref: "Product",
+            required: true,
+          },
+          variantId: {
+            type: Schema.Types.ObjectId,
+            required: false,
+          },
+          reference: {
+            type: String,
+            required: false,
+          },
+          name: {
+            type: String,
+            required: true,
+          },
+          quantity: {
+            type: Number,
+            required: true,
+            min: [1, "Quantity must be at least 1"],
+          },
+          listPrice: {
+            type: Number,
+            required: true,
+            min: [0, "Price must be positive"],
+          },
+          unitPrice: {
+            type: Number,
+            required: false,
+            min: [0, "Price must be positive"],
+          },
+        },
+      ],
+      validate: {
+        validator: (value: unknown[]) => value.length > 0,
+        message: "At least one product line is required",
+      },
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Message cannot exceed 1000 characters"],
+    },
+    supplierNote: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Note cannot exceed 1000 characters"],
+    },
+    validUntil: {
+      type: Date,
+      required: false,
+    },
+    status: {
+      type: String,
+      enum: ["requested", "answered", "declined", "rejected", "accepted"],
+      default: "requested",
+    },
+    id_commande: {
+      type: Schema.Types.ObjectId,
+      ref: "Commande",
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "quotes",
+  }
+);
+
+// Indexes for faster queries
+QuoteSchema.index({ idClient: 1, createdAt: -1 });
+QuoteSchema.index({ idSupplier: 1, status: 1 });
+
+export default mongoose.model<IQuote>("Quote", QuoteSchema);
@@ -0,0 +1,133 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { ILotAllocation } from "./Commande";
+
+export interface IReturnRequest extends Document {
+  _id: mongoose.Types.ObjectId;
+  id_commande: mongoose.Types.ObjectId;
+  idBuyer: mongoose.Types.ObjectId;
+  idSupplier: mongoose.Types.ObjectId;
+  products: Array<{
+    productId: mongoose.Types.ObjectId;
+    variantId?: mongoose.Types.ObjectId; // Set for lines ordered by variant
+    name: string;
+    quantity: number; // Quantity returned or missing for this order line
+    lots: ILotAllocation[]; // Lots of the order line the quantity goes back to
+  }>;
+  reason: "damaged" | "missing" | "wrong_item" | "expired" | "other";
+  description?: string;
+  evidence: string[]; // Paths of uploaded photos / PDF files
+  status: "pending" | "accepted" | "rejected";
+  supplierResponse?: string; // Reason given by the supplier when rejecting
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReturnRequestSchema = new Schema<IReturnRequest>(
+  {
+    id_commande: {
+      type: Schema.Types.ObjectId,
+      ref: "Commande",
+      required: [true, "Commande ID is required"],
+    },
+    idBuyer: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Buyer ID is required"],
+    },
+    idSupplier: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Supplier ID is required"],
+    },
+    products: {
+      type: [
+        {
+          productId: {
+            type: Schema.Types.ObjectId,
+            ref: "Product",
+            required: true,
+          },
+          variantId: {
+            type: Schema.Types.ObjectId,
+            required: false,
+          },
+          name: {
+            type: String,
+            required: true,
+          },
+          quantity: {
+            type: Number,
+            required: true,
+            min: [1, "Quantity must be at least 1"],
+          },
+          lots: [
+            {
+              _id: false,
+              lotId: {
+                type: Schema.Types.ObjectId,
+                required: true,
+              },
+              lotNumber: {
+                type: String,
+                required: true,
+              },
+              expiryDate: {
+                type: Date,
+                required: true,
+              },
+              quantity: {
+                type: Number,
+                required: true,
+                min: [1, "Quantity must be at least 1"],
+              },
+            },
+          ],
+        },
+      ],
+      validate: {
+        validator: (value: unknown[]) => value.length > 0,
+        message: "At least one product line is required",
+      },
+    },
+    reason: {
+      type: String,
+      required: [true, "Reason is required"],
+      enum: ["damaged", "missing", "wrong_item", "expired", "other"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Description cannot exceed 1000 characters"],
+    },
+    evidence: {
+      type: [String],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: ["pending", "accepted", "rejected"],
+      default: "pending",
+    },
+    supplierResponse: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Response cannot exceed 500 characters"],
+    },
+    resolvedAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "returns",
+  }
+);
+
+// Indexes for faster queries
+ReturnRequestSchema.index({ id_commande: 1 });
+ReturnRequestSchema.index({ idBuyer: 1, createdAt: -1 });
+ReturnRequestSchema.index({ idSupplier: 1, status: 1 });
+
+export default mongoose.model<IReturnRequest>("ReturnRequest", ReturnRequestSchema);
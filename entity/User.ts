@@ -14,6 +14,7 @@ export interface IUser extends Document {
   rip_post?: string; // RIP Post (default empty)
   methode_payment?: string[]; // Payment methods array (default empty)
   rip_bank?: string; // RIP Bank (default empty)
+  lowStockEmailAlerts?: boolean; // Suppliers: also receive low-stock alerts by email
   createdAt: Date;
   updatedAt: Date;
 }
@@ -95,6 +96,10 @@ const UserSchema = new Schema<IUser>(
       default: "",
       trim: true,
     },
+    lowStockEmailAlerts: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
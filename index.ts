@@ -1,7 +1,6 @@
 import helmet from "helmet";
 import morgan from "morgan";
 import path from "path";
-import fs from "fs";
 // @ts-ignore - Express types issue with ESNext modules
 import express from "express";
 import rateLimit from "express-rate-limit";
@@ -102,46 +101,12 @@ const corsOptions = {
 
 app.use(cors(corsOptions));
 app.options("*", cors(corsOptions));
-app.use(express.static('uploads/images'));
-app.use(express.static("uploads/pdf"));
-app.use(express.static("uploads/video"));
-app.use(express.static("uploads/documents"));
-app.use(express.static("uploads/excel"));
-app.use(express.static("uploads/products/images"));
-app.use(express.static("uploads/products/videos"));
-app.use(express.static("uploads/payments"));
-// Ensure upload directories exist
-const uploadDirs = [
-  "uploads/images",
-  "uploads/pdf",
-  "uploads/video",
-  "uploads/documents",
-  "uploads/excel",
-  "uploads/products/images",
-  "uploads/products/videos",
-  "uploads/profile",
-  "uploads/profile-images",
-  "uploads/payments",
-];
-
-uploadDirs.forEach((dir) => {
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-    console.log(`Created directory: ${dir}`);
-  }
-});
-
-app.use(express.static("uploads/profile"));
-app.use(express.static("uploads/profile-images"));
+// Uploads are not served statically: responses carry signed /api/files links (see utils/storage.service)
 app.use(express.json({ limit: "100mb" }));
 app.use(express.urlencoded({extended:true , limit:'100mb'}))
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
-app.use(
-  "/uploads",
-  express.static(path.join(process.cwd(), "uploads"))
-);
 
 
 // app.get('/test' , (req:Request , res:Response)=>{
@@ -219,6 +184,22 @@ ValidatAppConfig(async () => {
     const { setSocketIO: setSocketIOClient } = await import("./Module/Client/Client.controller");
     setSocketIOClient(io);
 
+    const { setSocketIO: setSocketIOPayment } = await import("./Module/Payment/Payment.controller");
+    setSocketIOPayment(io);
+
+    const { setSocketIO: setSocketIOQuote } = await import("./Module/Quote/Quote.controller");
+    setSocketIOQuote(io);
+
+    const { setSocketIO: setSocketIOReturn } = await import("./Module/Return/Return.controller");
+    setSocketIOReturn(io);
+
+    const { setSocketIO: setSocketIOStockAlert } = await import("./utils/stockAlert.service");
+    setSocketIOStockAlert(io);
+
+    // Index products created before catalog search existed
+    const { backfillProductSearchGrams } = await import("./Module/Product/Product.controller");
+    await backfillProductSearchGrams();
+
     // Run Server
     server.listen(AppConfig.PORT, () => {
       console.log("server is runing on port ", AppConfig.PORT);
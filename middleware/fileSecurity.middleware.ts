@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import path from "path";
 import fs from "fs/promises";
+import { getStorage } from "../utils/storage.service";
 
 // Dangerous file extensions that should never be allowed
 const DANGEROUS_EXTENSIONS = [
@@ -169,6 +170,29 @@ export const validateUploadedFiles = (
   };
 };
 
+// Middleware removing the files multer saved for a request that ends in an error,
+// so rejected uploads do not pile up on disk. Register it before multer.
+export const discardUploadsOnError = (req: Request, res: Response, next: NextFunction): void => {
+  res.on("finish", () => {
+    if (res.statusCode < 400) return;
+
+    const uploaded = req.files
+      ? Array.isArray(req.files)
+        ? req.files
+        : Object.values(req.files).flat()
+      : [];
+    const files = req.file ? [req.file, ...uploaded] : uploaded;
+    files.forEach((file: Express.Multer.File) => {
+      if (file.path) {
+        getStorage()
+          .remove(file.path)
+          .catch((err) => console.error("Discard upload error:", err));
+      }
+    });
+  });
+  next();
+};
+
 // Export allowed extensions for use in routes
 export {
   ALLOWED_IMAGE_EXTENSIONS,
@@ -180,34 +180,37 @@ export const validateCreateProduct = (
   next: NextFunction
 ): void => {
   // Handle both JSON and FormData (after multer parsing)
-  const { name, purchasePrice, sellingPrice, quantity, category, deliveryTime, brand, productType } = req.body || {};
+  const { name, purchasePrice, sellingPrice, quantity, category, deliveryTime, brand, productType, variants } = req.body || {};
   const errors: string[] = [];
 
+  // Prices and stock of a product sold by variant come from its variants (validated in the controller)
+  const hasVariants = variants !== undefined && variants !== null && variants !== "" && variants !== "[]";
+
   if (!name) {
     errors.push("Le nom du produit est requis");
   } else if (!isValidProductName(name)) {
     errors.push("Le nom du produit doit contenir entre 2 et 200 caractères");
   }
 
-  if (purchasePrice === undefined || purchasePrice === null || purchasePrice === "") {
+  if (!hasVariants && (purchasePrice === undefined || purchasePrice === null || purchasePrice === "")) {
     errors.push("Le prix d'achat est requis");
-  } else if (!isValidPrice(purchasePrice)) {
+  } else if (!hasVariants && !isValidPrice(purchasePrice)) {
     errors.push("Le prix d'achat doit être un nombre positif valide (max 10,000,000 DA)");
   }
 
-  if (sellingPrice === undefined || sellingPrice === null || sellingPrice === "") {
+  if (!hasVariants && (sellingPrice === undefined || sellingPrice === null || sellingPrice === "")) {
     errors.push("Le prix de vente est requis");
-  } else if (!isValidPrice(sellingPrice)) {
+  } else if (!hasVariants && !isValidPrice(sellingPrice)) {
     errors.push("Le prix de vente doit être un nombre positif valide (max 10,000,000 DA)");
   }
 
-  if (purchasePrice && sellingPrice && parseFloat(sellingPrice) < parseFloat(purchasePrice)) {
+  if (!hasVariants && purchasePrice && sellingPrice && parseFloat(sellingPrice) < parseFloat(purchasePrice)) {
     errors.push("Le prix de vente doit être supérieur ou égal au prix d'achat");
   }
 
-  if (quantity === undefined || quantity === null || quantity === "") {
+  if (!hasVariants && (quantity === undefined || quantity === null || quantity === "")) {
     errors.push("La quantité est requise");
-  } else if (!isValidQuantity(quantity)) {
+  } else if (!hasVariants && !isValidQuantity(quantity)) {
     errors.push("La quantité doit être un entier positif valide (max 1,000,000)");
   }
 
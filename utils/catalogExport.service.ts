@@ -0,0 +1,139 @@
+import { Response } from "express";
+import XLSX from "xlsx";
+import { IProduct } from "../entity/Product";
+import { PriceTier } from "./pricing.service";
+
+// Column layout of the Excel/CSV product import, reused by the catalog export so exported files (xlsx or csv)
+// can be re-imported. Rows sharing a parentReference become the variants of one product (the row's reference
+// is the variant SKU).
+export const CATALOG_REQUIRED_COLUMNS = ["name", "purchasePrice", "sellingPrice", "quantity", "category", "deliveryTime", "brand", "productType"];
+export const CATALOG_OPTIONAL_COLUMNS = ["priceTiers", "reference", "description", "lowStockThreshold", "parentReference", "variantLabel", "packSize", "concentration"];
+
+export type CatalogFormat = "xlsx" | "csv";
+
+type CatalogProduct = Pick<
+  IProduct,
+  | "_id"
+  | "name"
+  | "reference"
+  | "description"
+  | "purchasePrice"
+  | "sellingPrice"
+  | "priceTiers"
+  | "quantity"
+  | "lowStockThreshold"
+  | "variants"
+  | "category"
+  | "deliveryTime"
+  | "brand"
+  | "productType"
+>;
+
+// Text cells starting with these are formulas for spreadsheet software: exported with a leading "'"
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const escapeCell = (value: string | number): string | number =>
+  typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+// Text of an imported cell, without the "'" the export adds before formula-like values
+export const catalogCell = (value: unknown): string => {
+  const text = String(value ?? "").trim();
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+};
+
+// Workbook of an uploaded catalog. CSV files are decoded as UTF-8 (accents in product types and names) and
+// their cells kept as text ("10:95;50:90" is not a time, "007" not a number).
+export const readCatalogWorkbook = (buffer: Buffer, filename: string): XLSX.WorkBook =>
+  /\.csv$/i.test(filename) ? XLSX.read(buffer.toString("utf8"), { type: "string", raw: true }) : XLSX.read(buffer);
+
+// Excel notation of volume tiers: "10:95;50:90"
+export const formatPriceTiers = (tiers: PriceTier[] = []): string =>
+  tiers.map((tier) => `${tier.minQuantity}:${tier.unitPrice}`).join(";");
+
+// One row per simple product and one per variant. Products without a reference are exported
+// with their id so the import can still match them.
+export const catalogRows = (products: CatalogProduct[]): Array<Record<string, string | number>> =>
+  products.flatMap((product) => {
+    const reference = product.reference || product._id.toString();
+    const shared = {
+      name: product.name,
+      category: product.category,
+      deliveryTime: product.deliveryTime,
+      brand: product.brand,
+      productType: product.productType,
+      description: product.description || "",
+      lowStockThreshold: product.lowStockThreshold ?? "",
+    };
+
+    if (!product.variants || product.variants.length === 0) {
+      return [
+        {
+          ...shared,
+          purchasePrice: product.purchasePrice,
+          sellingPrice: product.sellingPrice,
+          quantity: product.quantity,
+          priceTiers: formatPriceTiers(product.priceTiers),
+          reference,
+          parentReference: "",
+          variantLabel: "",
+          packSize: "",
+          concentration: "",
+        },
+      ];
+    }
+
+    return product.variants.map((variant) => ({
+      ...shared,
+      purchasePrice: variant.purchasePrice,
+      sellingPrice: variant.sellingPrice,
+      quantity: variant.quantity,
+      priceTiers: "",
+      reference: variant.reference,
+      parentReference: reference,
+      variantLabel: variant.label,
+      packSize: variant.packSize || "",
+      concentration: variant.concentration || "",
+    }));
+  });
+
+// Send rows as an Excel or CSV attachment named filename.format, with formula-like text cells escaped
+export const sendSpreadsheet = (
+  res: Response,
+  rows: Array<Record<string, string | number>>,
+  header: string[],
+  format: CatalogFormat,
+  filename: string,
+  sheetName: string
+): void => {
+  const escaped = rows.map((row) => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, escapeCell(value)])));
+  const worksheet = XLSX.utils.json_to_sheet(escaped, { header });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.send(XLSX.utils.sheet_to_csv(worksheet));
+  } else {
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.send(XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+  }
+};
+
+// Send catalog rows as an Excel or CSV attachment. Extra columns (e.g. the supplier for admins) come last
+// and are ignored by the import.
+export const sendCatalog = (
+  res: Response,
+  rows: Array<Record<string, string | number>>,
+  format: CatalogFormat,
+  filename: string,
+  extraColumns: string[] = []
+): void =>
+  sendSpreadsheet(
+    res,
+    rows,
+    [...CATALOG_REQUIRED_COLUMNS, ...CATALOG_OPTIONAL_COLUMNS, ...extraColumns],
+    format,
+    filename,
+    "Products"
+  );
@@ -182,3 +182,88 @@ Vous pouvez consulter ce message dans le tableau de bord administrateur.`,
     return false;
   }
 };
+
+export interface LowStockEmailLine {
+  name: string;
+  reference?: string;
+  quantity: number;
+  threshold: number;
+}
+
+// Send a low-stock alert to a supplier who opted in
+export const sendLowStockAlertEmail = async (
+  email: string,
+  supplierName: string,
+  lines: LowStockEmailLine[]
+): Promise<boolean> => {
+  try {
+    // Check if email is configured
+    if (!isEmailConfigured() || !transporter) {
+      console.error("Email service not configured. Cannot send low-stock alert email.");
+      return false;
+    }
+
+    const rows = lines
+      .map(
+        (line) => `
+                <tr>
+                  <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${line.name}${line.reference ? ` (${line.reference})` : ""}</td>
+                  <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right; color: #dc2626; font-weight: bold;">${line.quantity}</td>
+                  <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${line.threshold}</td>
+                </tr>`
+      )
+      .join("");
+
+    const mailOptions = {
+      from: `"Market Lab" <${process.env.SMTP_USER}>`,
+      to: email,
+      subject: `Stock faible - ${lines.length} produit(s) à réapprovisionner`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Alerte de stock faible</title>
+          </head>
+          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #16a34a 0%, #10b981 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+              <h1 style="color: white; margin: 0; font-size: 28px;">Market Lab</h1>
+            </div>
+            <div style="background: #ffffff; padding: 40px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 10px 10px;">
+              <h2 style="color: #1f2937; margin-top: 0;">Alerte de stock faible</h2>
+              <p style="color: #4b5563;">Bonjour ${supplierName}, les produits suivants ont atteint leur seuil de réapprovisionnement :</p>
+              <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+                <tr style="background: #f3f4f6;">
+                  <th style="padding: 8px; text-align: left;">Produit</th>
+                  <th style="padding: 8px; text-align: right;">Stock</th>
+                  <th style="padding: 8px; text-align: right;">Seuil</th>
+                </tr>${rows}
+              </table>
+              <p style="color: #6b7280; font-size: 12px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+                Vous pouvez désactiver ces emails depuis votre profil.
+              </p>
+            </div>
+            <div style="text-align: center; margin-top: 20px; color: #9ca3af; font-size: 12px;">
+              <p>© ${new Date().getFullYear()} Market Lab. Tous droits réservés.</p>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `Alerte de stock faible - Market Lab
+
+Bonjour ${supplierName}, les produits suivants ont atteint leur seuil de réapprovisionnement :
+
+${lines.map((line) => `- ${line.name}${line.reference ? ` (${line.reference})` : ""} : ${line.quantity} en stock (seuil ${line.threshold})`).join("\n")}
+
+Vous pouvez désactiver ces emails depuis votre profil.`,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log("Low-stock alert email sent:", info.messageId);
+    return true;
+  } catch (error: any) {
+    console.error("Error sending low-stock alert email:", error);
+    return false;
+  }
+};
@@ -0,0 +1,123 @@
+import path from "path";
+import Product from "../entity/Product";
+import Attachment from "../entity/Attachment";
+import Papier from "../entity/Papier";
+import Payment from "../entity/Payment";
+import { imageFiles } from "./image.service";
+import { getStorage, storageKey } from "./storage.service";
+
+// Upload directories whose files belong to a Product, Attachment, Papier or Payment (or to an Excel import,
+// which is never referenced). Other directories (returns, invoices...) are left alone by the sweep.
+export const MANAGED_UPLOAD_DIRS = [
+  "uploads/products",
+  "uploads/profile",
+  "uploads/profile-images",
+  "uploads/documents",
+  "uploads/payments",
+  "uploads/excel",
+];
+
+const PAYMENTS_DIR = "uploads/payments";
+
+export interface OrphanedUpload {
+  path: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+// Payment proofs only store their filename
+export const paymentPath = (image: string): string => (image.includes("/") || image.includes("\\") ? image : `${PAYMENTS_DIR}/${image}`);
+
+export type PaperDocument = "identity" | "Tax_number" | "commercial_register";
+
+export const PAPER_DOCUMENTS: PaperDocument[] = ["identity", "Tax_number", "commercial_register"];
+
+// Authenticated download link of an identity/company document (GET /api/files/papers/:papierId/:document)
+export const paperDocumentUrl = (
+  papier: { _id: { toString(): string } } & Partial<Record<PaperDocument, string>>,
+  document: PaperDocument
+): string | null => (papier[document] ? `/api/files/papers/${papier._id.toString()}/${document}` : null);
+
+// Authenticated download link of a payment proof (GET /api/files/payments/:paymentId/proof)
+export const paymentProofUrl = (payment: { _id: { toString(): string } }): string =>
+  `/api/files/payments/${payment._id.toString()}/proof`;
+
+// Storage key of a stored path, or null for paths outside uploads/
+const keyOf = (storedPath: string): string | null => {
+  try {
+    return storageKey(storedPath);
+  } catch {
+    return null;
+  }
+};
+
+// Whether a stored path is still used by a record
+const isReferenced = async (storedPath: string): Promise<boolean> => {
+  const filename = path.basename(storedPath);
+  const [product, attachment, papier, payment] = await Promise.all([
+    Product.exists({ $or: [{ images: storedPath }, { "variants.images": storedPath }, { video: storedPath }] }),
+    Attachment.exists({ image: storedPath }),
+    Papier.exists({ $or: [{ identity: storedPath }, { Tax_number: storedPath }, { commercial_register: storedPath }] }),
+    Payment.exists({ image: { $in: [storedPath, filename] } }),
+  ]);
+  return Boolean(product || attachment || papier || payment);
+};
+
+// Delete the files of stored paths that no record uses anymore (all sizes of a processed image).
+// Called after a record dropped or replaced them; failures are logged, never thrown.
+export const releaseFiles = async (storedPaths: Array<string | undefined | null>): Promise<void> => {
+  const unique = Array.from(new Set(storedPaths.filter((p): p is string => Boolean(p))));
+  for (const storedPath of unique) {
+    try {
+      if (!keyOf(storedPath) || (await isReferenced(storedPath))) continue;
+      await Promise.all(imageFiles(storedPath).map((file) => getStorage().remove(file)));
+    } catch (err) {
+      console.error("Release file error:", err);
+    }
+  }
+};
+
+// Every file under uploads/ used by a record, normalized
+const referencedFiles = async (): Promise<Set<string>> => {
+  const [products, attachments, papiers, payments] = await Promise.all([
+    Product.find().select("images variants.images video").lean(),
+    Attachment.find().select("image").lean(),
+    Papier.find().select("identity Tax_number commercial_register").lean(),
+    Payment.find().select("image").lean(),
+  ]);
+
+  const stored: string[] = [
+    ...products.flatMap((p) => [...(p.images || []), ...(p.variants || []).flatMap((v) => v.images || []), ...(p.video ? [p.video] : [])]),
+    ...attachments.map((a) => a.image),
+    ...papiers.flatMap((p) => [p.identity, p.Tax_number, p.commercial_register].filter((d): d is string => Boolean(d))),
+    ...payments.map((p) => paymentPath(p.image)),
+  ];
+  return new Set(stored.flatMap(imageFiles).map(keyOf).filter((key): key is string => Boolean(key)));
+};
+
+// Files of the managed upload directories that no record uses. Files younger than minAgeMs are skipped
+// because their record may not be saved yet.
+export const findOrphanedUploads = async (minAgeMs: number): Promise<OrphanedUpload[]> => {
+  const referenced = await referencedFiles();
+  const objects = (await Promise.all(MANAGED_UPLOAD_DIRS.map((dir) => getStorage().list(`${dir}/`)))).flat();
+  const cutoff = Date.now() - minAgeMs;
+
+  return objects
+    .filter((object) => !referenced.has(object.key) && object.modifiedAt.getTime() <= cutoff)
+    .map((object) => ({ path: object.key, size: object.size, modifiedAt: object.modifiedAt }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+};
+
+// Remove uploads found by findOrphanedUploads, returning the ones actually deleted
+export const removeOrphanedUploads = async (orphans: OrphanedUpload[]): Promise<OrphanedUpload[]> => {
+  const removed: OrphanedUpload[] = [];
+  for (const orphan of orphans) {
+    try {
+      await getStorage().remove(orphan.path);
+      removed.push(orphan);
+    } catch (err) {
+      console.error("Remove orphaned upload error:", err);
+    }
+  }
+  return removed;
+};
@@ -0,0 +1,109 @@
+import path from "path";
+import sharp from "sharp";
+import { getStorage, storageKey, signedFileUrl } from "./storage.service";
+
+// Sizes generated for every product image: the longest side is at most this many pixels
+export const IMAGE_SIZES = {
+  thumbnail: 150,
+  card: 400,
+  full: 1600,
+};
+
+export type ImageSize = keyof typeof IMAGE_SIZES;
+
+export type ImageSizeMap = Record<ImageSize, { webp: string; jpeg: string }>;
+
+export class InvalidImageError extends Error {
+  constructor(public originalName: string) {
+    super(`${originalName} is not a valid image`);
+    this.name = "InvalidImageError";
+  }
+}
+
+// Processed images are stored as "<name>-full.jpg"; the other sizes and formats sit next to it
+const FULL_SUFFIX = "-full.jpg";
+
+const sizePath = (base: string, size: ImageSize, format: "webp" | "jpeg"): string =>
+  `${base}-${size}.${format === "jpeg" ? "jpg" : "webp"}`;
+
+// Size map of a stored image path. Images uploaded before processing existed only have their original file.
+export const imageSizeMap = (imagePath: string): ImageSizeMap => {
+  const sizes = Object.keys(IMAGE_SIZES) as ImageSize[];
+  if (!imagePath.endsWith(FULL_SUFFIX)) {
+    return Object.fromEntries(sizes.map((size) => [size, { webp: imagePath, jpeg: imagePath }])) as ImageSizeMap;
+  }
+  const base = imagePath.slice(0, -FULL_SUFFIX.length);
+  return Object.fromEntries(
+    sizes.map((size) => [size, { webp: sizePath(base, size, "webp"), jpeg: sizePath(base, size, "jpeg") }])
+  ) as ImageSizeMap;
+};
+
+// Size map of signed links, for API responses
+export const imageUrls = (imagePath: string): ImageSizeMap => {
+  const sizes = imageSizeMap(imagePath);
+  return Object.fromEntries(
+    Object.entries(sizes).map(([size, formats]) => [size, { webp: signedFileUrl(formats.webp), jpeg: signedFileUrl(formats.jpeg) }])
+  ) as ImageSizeMap;
+};
+
+// Every file stored for an image path (all sizes and formats)
+export const imageFiles = (imagePath: string): string[] =>
+  Array.from(new Set(Object.values(imageSizeMap(imagePath)).flatMap((formats) => [formats.webp, formats.jpeg])));
+
+// Normalize an uploaded image: apply the EXIF orientation then drop all metadata (GPS, camera...),
+// and write every size in WebP and JPEG next to the upload, which is removed. Returns the stored path.
+export const processImage = async (file: { path: string; originalname: string }): Promise<string> => {
+  const storage = getStorage();
+  const source = storageKey(file.path);
+  const base = path.posix.join(path.posix.dirname(source), path.posix.parse(source).name);
+  const written: string[] = [];
+
+  try {
+    const input = await storage.read(source);
+    const metadata = await sharp(input).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new InvalidImageError(file.originalname);
+    }
+
+    for (const [size, maxDimension] of Object.entries(IMAGE_SIZES) as Array<[ImageSize, number]>) {
+      // sharp writes no metadata unless asked to
+      const resized = sharp(input)
+        .rotate()
+        .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true });
+
+      const webpPath = sizePath(base, size, "webp");
+      await storage.put(webpPath, await resized.clone().webp({ quality: 80 }).toBuffer(), "image/webp");
+      written.push(webpPath);
+
+      const jpegPath = sizePath(base, size, "jpeg");
+      const jpeg = await resized.clone().flatten({ background: "#ffffff" }).jpeg({ quality: 82, mozjpeg: true }).toBuffer();
+      await storage.put(jpegPath, jpeg, "image/jpeg");
+      written.push(jpegPath);
+    }
+  } catch (err) {
+    await Promise.all(written.map((p) => storage.remove(p)));
+    await storage.remove(source);
+    if (err instanceof InvalidImageError) throw err;
+    // sharp rejects files it cannot decode
+    throw new InvalidImageError(file.originalname);
+  }
+
+  await storage.remove(source);
+  return `${base}${FULL_SUFFIX}`;
+};
+
+// Process the uploaded images of a request in order. If one is invalid, the others are removed too.
+export const processImages = async (files: Array<{ path: string; originalname: string }>): Promise<string[]> => {
+  const stored: string[] = [];
+  try {
+    for (const file of files) {
+      stored.push(await processImage(file));
+    }
+    return stored;
+  } catch (err) {
+    const storage = getStorage();
+    await Promise.all(stored.flatMap(imageFiles).map((p) => storage.remove(p)));
+    await Promise.all(files.map((file) => storage.remove(file.path)));
+    throw err;
+  }
+};
@@ -0,0 +1,131 @@
+import mongoose from "mongoose";
+import InventoryMovement, { InventoryMovementType } from "../entity/InventoryMovement";
+import { IProduct } from "../entity/Product";
+import { ILotAllocation } from "../entity/Commande";
+import { StockRequest } from "./stock.service";
+
+export interface MovementActor {
+  id: mongoose.Types.ObjectId | string;
+  role: string;
+}
+
+export interface MovementEntry {
+  productId: mongoose.Types.ObjectId | string;
+  variantId?: mongoose.Types.ObjectId | string;
+  idSupplier: mongoose.Types.ObjectId | string;
+  name: string;
+  reference?: string;
+  type: InventoryMovementType;
+  delta: number;
+  quantityAfter: number;
+  actor: mongoose.Types.ObjectId | string;
+  actorRole: string;
+  orderId?: mongoose.Types.ObjectId | string;
+  returnId?: mongoose.Types.ObjectId | string;
+  lots?: ILotAllocation[];
+  note?: string;
+}
+
+// The product fields the ledger reads
+type StockProduct = Pick<IProduct, "_id" | "name" | "reference" | "quantity" | "variants" | "supplierId">;
+
+interface StockLine {
+  variantId?: mongoose.Types.ObjectId;
+  name: string;
+  reference?: string;
+  quantity: number;
+}
+
+// Stock lines of a product: the product itself, or each of its variants, keyed by variant ID ("" without variants)
+export const stockSnapshot = (product: StockProduct | null): Map<string, StockLine> => {
+  const lines = new Map<string, StockLine>();
+  if (!product) return lines;
+
+  if (product.variants.length > 0) {
+    product.variants.forEach((v) =>
+      lines.set(v._id.toString(), {
+        variantId: v._id,
+        name: `${product.name} - ${v.label}`,
+        reference: v.reference,
+        quantity: v.quantity,
+      })
+    );
+  } else {
+    lines.set("", { name: product.name, reference: product.reference, quantity: product.quantity });
+  }
+  return lines;
+};
+
+// Movements for what changed between two snapshots of a product's stock, e.g. around product.save().
+// New lines are recorded even at zero so the ledger shows when they started.
+export const stockChangeEntries = (
+  product: StockProduct,
+  before: Map<string, StockLine>,
+  after: Map<string, StockLine>,
+  type: InventoryMovementType,
+  actor: MovementActor,
+  note?: string
+): MovementEntry[] => {
+  const keys = new Set([...before.keys(), ...after.keys()]);
+  const entries: MovementEntry[] = [];
+
+  keys.forEach((key) => {
+    const previous = before.get(key);
+    const current = after.get(key);
+    const line = (current || previous)!;
+    const delta = (current?.quantity || 0) - (previous?.quantity || 0);
+    if (delta === 0 && previous) return;
+
+    entries.push({
+      productId: product._id,
+      ...(line.variantId && { variantId: line.variantId }),
+      idSupplier: product.supplierId,
+      name: line.name,
+      reference: line.reference,
+      type,
+      delta,
+      quantityAfter: current?.quantity || 0,
+      actor: actor.id,
+      actorRole: actor.role,
+      ...(note && { note }),
+    });
+  });
+  return entries;
+};
+
+// Movements of the lines of an order leaving or coming back into stock. Lines whose product
+// no longer exists (quantity after is null) have nothing to record.
+export const orderMovementEntries = (
+  type: "sale" | "cancellation" | "return",
+  idSupplier: mongoose.Types.ObjectId | string,
+  lines: StockRequest[],
+  quantitiesAfter: Array<number | null>,
+  actor: MovementActor,
+  refs: { orderId: mongoose.Types.ObjectId | string; returnId?: mongoose.Types.ObjectId | string }
+): MovementEntry[] =>
+  lines.flatMap((line, i) => {
+    const quantityAfter = quantitiesAfter[i];
+    if (quantityAfter === null || quantityAfter === undefined) return [];
+    return [
+      {
+        productId: line.productId,
+        ...(line.variantId && { variantId: line.variantId }),
+        idSupplier,
+        name: line.name,
+        type,
+        delta: type === "sale" ? -line.quantity : line.quantity,
+        quantityAfter,
+        actor: actor.id,
+        actorRole: actor.role,
+        orderId: refs.orderId,
+        ...(refs.returnId && { returnId: refs.returnId }),
+        lots: line.lots || [],
+      },
+    ];
+  });
+
+// Append movements to the ledger, inside the caller's transaction when a session is given
+export const recordMovements = async (entries: MovementEntry[], session?: mongoose.ClientSession): Promise<void> => {
+  if (entries.length === 0) return;
+  await InventoryMovement.insertMany(entries, { session });
+};
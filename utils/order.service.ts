@@ -0,0 +1,115 @@
+import mongoose from "mongoose";
+import { CommandeStatus, ICommandeStatusChange, PaymentMethod } from "../entity/Commande";
+import { IUser } from "../entity/User";
+import { IProduct } from "../entity/Product";
+import { getUnitPrice } from "./pricing.service";
+
+// Build a statusHistory entry for a Commande
+export const statusChange = (
+  from: CommandeStatus | null,
+  to: CommandeStatus,
+  changedBy: string,
+  changedByRole: string,
+  note?: string
+): ICommandeStatusChange => ({
+  from,
+  to,
+  changedBy: new mongoose.Types.ObjectId(changedBy),
+  changedByRole,
+  ...(note && { note }),
+  changedAt: new Date(),
+});
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["cash", "by post", "bank"];
+
+// Check the buyer's payment method against the methods and RIPs the supplier configured.
+// Suppliers that never configured methode_payment accept every method. Without a method, the order uses the
+// supplier's only accepted method (clients written before payment methods existed do not send one).
+export const resolvePaymentMethod = (
+  supplier: IUser,
+  requested: unknown
+): { error: string } | { method: PaymentMethod; rip: string | null } => {
+  const accepted = supplier.methode_payment || [];
+  const method =
+    requested === undefined || requested === null || requested === ""
+      ? accepted.length === 1
+        ? accepted[0]
+        : undefined
+      : requested;
+
+  if (typeof method !== "string" || !PAYMENT_METHODS.includes(method as PaymentMethod)) {
+    return { error: `Payment method is required and must be one of: ${PAYMENT_METHODS.join(", ")}` };
+  }
+
+  if (accepted.length > 0 && !accepted.includes(method)) {
+    return {
+      error: `Supplier ${supplier.firstName} ${supplier.lastName} does not accept '${method}'. Accepted methods: ${accepted.join(", ")}`,
+    };
+  }
+
+  const rip = method === "bank" ? supplier.rip_bank : method === "by post" ? supplier.rip_post : null;
+  if (method !== "cash" && !rip) {
+    return {
+      error: `Supplier ${supplier.firstName} ${supplier.lastName} has no RIP configured for '${method}' payments`,
+    };
+  }
+
+  return { method: method as PaymentMethod, rip: rip || null };
+};
+
+// What the buyer needs to pay an order with the chosen method
+export const paymentInstructions = (method: PaymentMethod, rip: string | null) => ({
+  method,
+  rip,
+  requiresProof: method !== "cash",
+});
+
+export interface OrderLine {
+  productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId;
+  reference?: string;
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+// Price a requested item. Products with variants are ordered by variant (variantId required),
+// at the variant's price; the others at their selling price or volume tier.
+export const buildOrderLine = (
+  product: IProduct,
+  variantId: unknown,
+  quantity: number
+): { error: string } | { line: OrderLine } => {
+  if (product.variants && product.variants.length > 0) {
+    const variant = variantId ? product.variants.find((v) => v._id.toString() === String(variantId)) : undefined;
+    if (!variant) {
+      return {
+        error: `A valid variantId is required for ${product.name}. Available variants: ${product.variants.map((v) => v.label).join(", ")}`,
+      };
+    }
+    return {
+      line: {
+        productId: product._id,
+        variantId: variant._id,
+        reference: variant.reference,
+        name: `${product.name} - ${variant.label}`,
+        price: variant.sellingPrice,
+        quantity,
+      },
+    };
+  }
+
+  if (variantId) {
+    return { error: `Product ${product.name} has no variants` };
+  }
+
+  return {
+    line: {
+      productId: product._id,
+      ...(product.reference && { reference: product.reference }),
+      name: product.name,
+      price: getUnitPrice(product, quantity),
+      quantity,
+    },
+  };
+};
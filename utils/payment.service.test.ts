@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { checkProofAmount, getPaymentStatus, PaymentNotAllowedError, summarizePayments } from "./payment.service";
+
+describe("summarizePayments", () => {
+  test("confirmed payments are paid, pending ones only reduce the outstanding balance", () => {
+    const summary = summarizePayments(1000, [
+      { status: "confirmed", total: 300 },
+      { status: "pending", total: 200.005 },
+    ]);
+    expect(summary.amountPaid).toBe(300);
+    expect(summary.pendingAmount).toBe(200.01);
+    expect(summary.outstandingBalance).toBe(499.99);
+    expect(summary.paymentStatus).toBe("partially_paid");
+  });
+
+  test("the outstanding balance never goes negative", () => {
+    const summary = summarizePayments(100, [{ status: "confirmed", total: 120 }]);
+    expect(summary.outstandingBalance).toBe(0);
+    expect(summary.paymentStatus).toBe("paid");
+  });
+});
+
+describe("getPaymentStatus", () => {
+  test("is paid within the 0.01 DA tolerance", () => {
+    expect(getPaymentStatus(100, 0)).toBe("unpaid");
+    expect(getPaymentStatus(100, 99.5)).toBe("partially_paid");
+    expect(getPaymentStatus(100, 99.995)).toBe("paid");
+  });
+});
+
+describe("checkProofAmount", () => {
+  test("accepts a proof up to the outstanding balance", () => {
+    const summary = summarizePayments(1000, [{ status: "confirmed", total: 400 }]);
+    expect(() => checkProofAmount(summary, 600)).not.toThrow();
+    expect(() => checkProofAmount(summary, 600.005)).not.toThrow();
+  });
+
+  test("rejects over-payment", () => {
+    const summary = summarizePayments(1000, [{ status: "confirmed", total: 400 }]);
+    expect(() => checkProofAmount(summary, 600.5)).toThrow("Payment exceeds the outstanding balance");
+  });
+
+  test("rejects any proof once the balance is paid or covered by pending proofs", () => {
+    const paid = summarizePayments(1000, [{ status: "confirmed", total: 1000 }]);
+    expect(() => checkProofAmount(paid, 1)).toThrow("This commande is already fully paid");
+
+    const covered = summarizePayments(1000, [
+      { status: "confirmed", total: 400 },
+      { status: "pending", total: 600 },
+    ]);
+    expect(() => checkProofAmount(covered, 1)).toThrow(PaymentNotAllowedError);
+    expect(() => checkProofAmount(covered, 1)).toThrow("awaiting supplier review");
+  });
+});
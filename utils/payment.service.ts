@@ -0,0 +1,165 @@
+import mongoose from "mongoose";
+import Payment from "../entity/Payment";
+import Commande from "../entity/Commande";
+
+// Amounts are compared with a 0.01 DA tolerance for floating point precision
+export const PAYMENT_TOLERANCE = 0.01;
+
+export interface PaymentSummary {
+  total: number;
+  amountPaid: number; // Confirmed payments
+  pendingAmount: number; // Proofs awaiting supplier review
+  outstandingBalance: number; // What is left to pay once pending proofs are confirmed
+  paymentStatus: "unpaid" | "partially_paid" | "paid";
+}
+
+export class PaymentNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentNotAllowedError";
+  }
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export const getPaymentStatus = (total: number, amountPaid: number): PaymentSummary["paymentStatus"] => {
+  if (amountPaid <= 0) {
+    return "unpaid";
+  }
+  return total - amountPaid <= PAYMENT_TOLERANCE ? "paid" : "partially_paid";
+};
+
+// Sum the confirmed and pending payments of a commande of this total
+export const summarizePayments = (
+  total: number,
+  payments: Array<{ status: string; total: number }>
+): PaymentSummary => {
+  const amountPaid = round(
+    payments.filter((p) => p.status === "confirmed").reduce((sum, p) => sum + p.total, 0)
+  );
+  const pendingAmount = round(
+    payments.filter((p) => p.status === "pending").reduce((sum, p) => sum + p.total, 0)
+  );
+
+  return {
+    total,
+    amountPaid,
+    pendingAmount,
+    outstandingBalance: Math.max(0, round(total - amountPaid - pendingAmount)),
+    paymentStatus: getPaymentStatus(total, amountPaid),
+  };
+};
+
+// Sum confirmed and pending payments of a commande
+export const getPaymentSummary = async (
+  commandeId: mongoose.Types.ObjectId | string,
+  total: number,
+  session?: mongoose.ClientSession
+): Promise<PaymentSummary> => {
+  const payments = await Payment.find({
+    id_commande: commandeId,
+    status: { $in: ["pending", "confirmed"] },
+  }).session(session ?? null);
+  return summarizePayments(total, payments);
+};
+
+// Throws PaymentNotAllowedError unless a new proof of this amount fits in the outstanding balance
+export const checkProofAmount = (summary: PaymentSummary, amount: number): void => {
+  if (summary.outstandingBalance <= PAYMENT_TOLERANCE) {
+    throw new PaymentNotAllowedError(
+      summary.pendingAmount > 0
+        ? "The remaining balance of this commande is already covered by payments awaiting supplier review"
+        : "This commande is already fully paid"
+    );
+  }
+  if (amount - summary.outstandingBalance > PAYMENT_TOLERANCE) {
+    throw new PaymentNotAllowedError(
+      `Payment exceeds the outstanding balance. Outstanding balance: ${summary.outstandingBalance} DA, Provided: ${amount} DA`
+    );
+  }
+};
+
+// Recompute amountPaid / paymentStatus stored on the commande from its confirmed payments.
+// Runs in the transaction that changed a payment: concurrent reviews both write the commande, so one is
+// retried and sums the other's confirmation.
+export const refreshCommandePayment = async (
+  commandeId: mongoose.Types.ObjectId | string,
+  session: mongoose.ClientSession
+): Promise<void> => {
+  const commande = await Commande.findById(commandeId).session(session);
+  if (!commande) {
+    return;
+  }
+
+  const { amountPaid, paymentStatus } = await getPaymentSummary(commande._id, commande.total, session);
+  await Commande.updateOne({ _id: commande._id }, { $set: { amountPaid, paymentStatus } }, { session });
+};
+
+// Confirm or reject a pending payment proof, updating the commande's paid amount in the same transaction.
+// Returns null when the proof is no longer pending.
+export const reviewPaymentProof = async (
+  paymentId: string,
+  decision: "confirmed" | "rejected",
+  rejectionReason?: string
+): Promise<InstanceType<typeof Payment> | null> => {
+  const session = await mongoose.startSession();
+  try {
+    return await session.withTransaction(async () => {
+      // Conditional on "pending" so a proof is reviewed only once
+      const payment = await Payment.findOneAndUpdate(
+        { _id: paymentId, status: "pending" },
+        {
+          $set: {
+            status: decision,
+            reviewedAt: new Date(),
+            ...(decision === "rejected" && { rejectionReason }),
+          },
+        },
+        { new: true, session }
+      );
+      if (payment && decision === "confirmed") {
+        await refreshCommandePayment(payment.id_commande, session);
+      }
+      return payment;
+    });
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Record a pending payment proof within the outstanding balance of an open commande.
+// The commande is written first, conditionally on it still being open, so concurrent uploads for the same
+// commande conflict: the losing transaction is retried and its balance check sees the other proof.
+export const recordPaymentProof = async (
+  commandeId: mongoose.Types.ObjectId,
+  ownerId: string,
+  amount: number,
+  image: string
+): Promise<InstanceType<typeof Payment>> => {
+  let payment: InstanceType<typeof Payment> | null = null;
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const commande = await Commande.findOneAndUpdate(
+        { _id: commandeId, status: { $nin: ["cancelled", "refused"] } },
+        { $set: { updatedAt: new Date() } },
+        { new: true, session }
+      );
+      if (!commande) {
+        throw new PaymentNotAllowedError("Cancelled or refused orders cannot be paid");
+      }
+
+      // Pending proofs count against the balance
+      const summary = await getPaymentSummary(commande._id, Number(commande.total), session);
+      checkProofAmount(summary, amount);
+
+      [payment] = await Payment.create(
+        [{ id_commande: commandeId, id_owner: ownerId, total: amount, image, status: "pending" }],
+        { session }
+      );
+    });
+  } finally {
+    await session.endSession();
+  }
+  return payment!;
+};
@@ -0,0 +1,166 @@
+import PDFDocument from "pdfkit";
+import { Writable } from "stream";
+
+export interface PdfParty {
+  name: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface PdfSupplier extends PdfParty {
+  rip_bank?: string;
+  rip_post?: string;
+}
+
+export interface PdfOrderLine {
+  name: string;
+  quantity: number;
+  price: number;
+  discount?: number; // Part of the order discount allocated to this line
+  lots?: Array<{ lotNumber: string; expiryDate: Date; quantity: number }>; // Delivered lots, for traceability
+}
+
+export interface PdfOrderDocument {
+  number: string; // Invoice or delivery note number
+  orderId: string;
+  orderDate: Date;
+  supplier: PdfSupplier;
+  buyer: PdfParty;
+  lines: PdfOrderLine[];
+  subtotal: number; // Sum of the lines before discounts
+  discount: number; // subtotal - total
+  promotions: Array<{ name: string; code?: string; amount: number }>;
+  total: number;
+}
+
+const formatAmount = (value: number): string => `${value.toFixed(2)} DA`;
+
+const formatDate = (date: Date): string => date.toLocaleDateString("fr-FR");
+
+// Title, number and the supplier / buyer blocks shared by both documents
+const writeHeader = (doc: PDFKit.PDFDocument, title: string, data: PdfOrderDocument): void => {
+  doc.fontSize(20).text(title, { align: "right" });
+  doc.fontSize(10).text(`N° ${data.number}`, { align: "right" });
+  doc.text(`Date : ${formatDate(new Date())}`, { align: "right" });
+  doc.text(`Commande : ${data.orderId} du ${formatDate(data.orderDate)}`, { align: "right" });
+  doc.moveDown(2);
+
+  const top = doc.y;
+  const writeParty = (label: string, party: PdfParty, x: number, extra: string[] = []) => {
+    doc.fontSize(11).text(label, x, top, { width: 240, underline: true });
+    doc.fontSize(10).text(party.name, { width: 240 });
+    [party.address, party.phone, party.email, ...extra]
+      .filter(Boolean)
+      .forEach((line) => doc.text(line as string, { width: 240 }));
+  };
+
+  writeParty("Fournisseur", data.supplier, 50, [
+    ...(data.supplier.rip_bank ? [`RIP bancaire : ${data.supplier.rip_bank}`] : []),
+    ...(data.supplier.rip_post ? [`RIP postal : ${data.supplier.rip_post}`] : []),
+  ]);
+  const supplierBottom = doc.y;
+  writeParty("Client", data.buyer, 310);
+  doc.y = Math.max(supplierBottom, doc.y);
+  doc.x = 50;
+  doc.moveDown(2);
+};
+
+// Simple table: one row per order line, columns given as [label, width, value getter]
+const writeTable = (
+  doc: PDFKit.PDFDocument,
+  columns: Array<[string, number, (line: PdfOrderLine) => string]>,
+  lines: PdfOrderLine[]
+): void => {
+  const writeRow = (cells: string[], bold: boolean) => {
+    const y = doc.y;
+    let x = 50;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+    let rowBottom = y;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x, y, { width: columns[i][1] - 10 });
+      rowBottom = Math.max(rowBottom, doc.y);
+      x += columns[i][1];
+    });
+    doc.y = rowBottom + 5;
+  };
+
+  doc.fontSize(10);
+  writeRow(columns.map(([label]) => label), true);
+  lines.forEach((line) => writeRow(columns.map(([, , getter]) => getter(line)), false));
+  doc.font("Helvetica");
+  doc.x = 50;
+  doc.moveDown();
+};
+
+// Write a numbered invoice (facture) for an order to the given stream
+export const writeInvoicePdf = (data: PdfOrderDocument, stream: Writable): void => {
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  doc.pipe(stream);
+
+  writeHeader(doc, "FACTURE", data);
+  writeTable(
+    doc,
+    [
+      ["Désignation", 200, (line) => line.name],
+      ["Qté", 45, (line) => String(line.quantity)],
+      ["Prix unitaire", 85, (line) => formatAmount(line.price)],
+      ["Remise", 75, (line) => (line.discount ? `-${formatAmount(line.discount)}` : "")],
+      ["Montant", 90, (line) => formatAmount(line.price * line.quantity - (line.discount || 0))],
+    ],
+    data.lines
+  );
+
+  // Sous-total - promotions = total, and the Montant column adds up to the total too
+  if (data.discount > 0) {
+    doc.fontSize(10).text(`Sous-total : ${formatAmount(data.subtotal)}`, { align: "right" });
+    if (data.promotions.length > 0) {
+      data.promotions.forEach((promotion) => {
+        const label = promotion.code ? `${promotion.name} (${promotion.code})` : promotion.name;
+        doc.text(`${label} : -${formatAmount(promotion.amount)}`, { align: "right" });
+      });
+    } else {
+      doc.text(`Remise : -${formatAmount(data.discount)}`, { align: "right" });
+    }
+  }
+  doc.font("Helvetica-Bold").fontSize(12).text(`Total : ${formatAmount(data.total)}`, { align: "right" });
+  doc.font("Helvetica");
+
+  if (data.supplier.rip_bank || data.supplier.rip_post) {
+    doc.moveDown(2).fontSize(9).text("Règlement par virement sur le RIP du fournisseur indiqué ci-dessus.");
+  }
+
+  doc.end();
+};
+
+// Write a numbered delivery note (bon de livraison) for an order to the given stream
+export const writeDeliveryNotePdf = (data: PdfOrderDocument, stream: Writable): void => {
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  doc.pipe(stream);
+
+  writeHeader(doc, "BON DE LIVRAISON", data);
+  writeTable(
+    doc,
+    [
+      [
+        "Désignation",
+        330,
+        (line) =>
+          [
+            line.name,
+            ...(line.lots || []).map((lot) => `  Lot ${lot.lotNumber} - exp. ${formatDate(lot.expiryDate)} - ${lot.quantity}`),
+          ].join("\n"),
+      ],
+      ["Qté commandée", 85, (line) => String(line.quantity)],
+      ["Qté livrée", 80, () => ""],
+    ],
+    data.lines
+  );
+
+  doc.moveDown(3).fontSize(10);
+  const y = doc.y;
+  doc.text("Signature du fournisseur", 50, y);
+  doc.text("Signature et cachet du client", 310, y);
+
+  doc.end();
+};
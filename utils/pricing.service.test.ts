@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { getUnitPrice, parsePriceTiers } from "./pricing.service";
+
+describe("getUnitPrice", () => {
+  const product = {
+    sellingPrice: 100,
+    priceTiers: [
+      { minQuantity: 50, unitPrice: 90 },
+      { minQuantity: 10, unitPrice: 95 },
+    ],
+  };
+
+  test("uses the selling price below the first tier", () => {
+    expect(getUnitPrice(product, 1)).toBe(100);
+    expect(getUnitPrice(product, 9)).toBe(100);
+  });
+
+  test("uses the highest tier reached, whatever the order of the tiers", () => {
+    expect(getUnitPrice(product, 10)).toBe(95);
+    expect(getUnitPrice(product, 49)).toBe(95);
+    expect(getUnitPrice(product, 50)).toBe(90);
+    expect(getUnitPrice(product, 500)).toBe(90);
+  });
+
+  test("products without tiers always cost their selling price", () => {
+    expect(getUnitPrice({ sellingPrice: 42 }, 1000)).toBe(42);
+  });
+});
+
+describe("parsePriceTiers", () => {
+  test("reads the Excel notation, arrays and JSON, sorted by quantity", () => {
+    const expected = {
+      tiers: [
+        { minQuantity: 10, unitPrice: 95 },
+        { minQuantity: 50, unitPrice: 90 },
+      ],
+    };
+    expect(parsePriceTiers("50:90; 10:95", 80, 100)).toEqual(expected);
+    expect(parsePriceTiers([{ minQuantity: 10, unitPrice: 95 }, { minQuantity: "50", unitPrice: "90" }], 80, 100)).toEqual(expected);
+    expect(parsePriceTiers('[{"minQuantity":10,"unitPrice":95},{"minQuantity":50,"unitPrice":90}]', 80, 100)).toEqual(expected);
+  });
+
+  test("empty values clear the tiers", () => {
+    expect(parsePriceTiers("", 80, 100)).toEqual({ tiers: [] });
+    expect(parsePriceTiers(undefined, 80, 100)).toEqual({ tiers: [] });
+  });
+
+  test("tiers start above 1 unit and stay between the purchase and selling price", () => {
+    expect(parsePriceTiers("1:95", 80, 100)).toHaveProperty("error");
+    expect(parsePriceTiers("10:79", 80, 100)).toHaveProperty("error");
+    expect(parsePriceTiers("10:101", 80, 100)).toHaveProperty("error");
+  });
+
+  test("tiers get cheaper as quantity grows and are not duplicated", () => {
+    expect(parsePriceTiers("10:90;50:95", 80, 100)).toEqual({
+      error: "Tier unit prices must decrease as the minimum quantity increases",
+    });
+    expect(parsePriceTiers("10:95;10:90", 80, 100)).toEqual({ error: "Duplicate tier for minimum quantity 10" });
+  });
+
+  test("invalid input is an error", () => {
+    expect(parsePriceTiers("[not json", 80, 100)).toEqual({ error: "Price tiers must be a valid JSON array" });
+    expect(parsePriceTiers(42, 80, 100)).toHaveProperty("error");
+    expect(parsePriceTiers("abc", 80, 100)).toHaveProperty("error");
+  });
+});
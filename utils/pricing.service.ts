@@ -0,0 +1,83 @@
+export interface PriceTier {
+  minQuantity: number;
+  unitPrice: number;
+}
+
+// Unit price for a quantity: the tier with the highest minQuantity reached, else the selling price
+export const getUnitPrice = (
+  product: { sellingPrice: number; priceTiers?: PriceTier[] },
+  quantity: number
+): number => {
+  let unitPrice = product.sellingPrice;
+  let bestMin = 0;
+  (product.priceTiers || []).forEach((tier) => {
+    if (quantity >= tier.minQuantity && tier.minQuantity > bestMin) {
+      bestMin = tier.minQuantity;
+      unitPrice = tier.unitPrice;
+    }
+  });
+  return unitPrice;
+};
+
+// Parse tiers from a JSON array, an array, or the Excel "10:95;50:90" notation.
+// Tiers must start above 1 unit, stay between the purchase and selling price and get cheaper as quantity grows.
+export const parsePriceTiers = (
+  raw: unknown,
+  purchasePrice: number,
+  sellingPrice: number
+): { tiers: PriceTier[] } | { error: string } => {
+  if (raw === undefined || raw === null || raw === "") {
+    return { tiers: [] };
+  }
+
+  let entries: any[];
+  if (Array.isArray(raw)) {
+    entries = raw;
+  } else if (typeof raw === "string" && raw.trim().startsWith("[")) {
+    try {
+      entries = JSON.parse(raw);
+    } catch {
+      return { error: "Price tiers must be a valid JSON array" };
+    }
+  } else if (typeof raw === "string") {
+    entries = raw
+      .split(";")
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .map((part) => {
+        const [minQuantity, unitPrice] = part.split(":");
+        return { minQuantity, unitPrice };
+      });
+  } else {
+    return { error: "Price tiers must be an array of { minQuantity, unitPrice }" };
+  }
+
+  if (!Array.isArray(entries) || entries.length > 10) {
+    return { error: "Price tiers must be an array of at most 10 tiers" };
+  }
+
+  const tiers = entries
+    .map((entry) => ({
+      minQuantity: parseInt(entry?.minQuantity),
+      unitPrice: parseFloat(entry?.unitPrice),
+    }))
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+
+  for (let i = 0; i < tiers.length; i++) {
+    const tier = tiers[i];
+    if (isNaN(tier.minQuantity) || tier.minQuantity < 2 || tier.minQuantity > 1000000) {
+      return { error: "Tier minimum quantity must be an integer between 2 and 1,000,000" };
+    }
+    if (isNaN(tier.unitPrice) || tier.unitPrice < purchasePrice || tier.unitPrice > sellingPrice) {
+      return { error: "Tier unit price must be between the purchase price and the selling price" };
+    }
+    if (i > 0 && tier.minQuantity === tiers[i - 1].minQuantity) {
+      return { error: `Duplicate tier for minimum quantity ${tier.minQuantity}` };
+    }
+    if (i > 0 && tier.unitPrice > tiers[i - 1].unitPrice) {
+      return { error: "Tier unit prices must decrease as the minimum quantity increases" };
+    }
+  }
+
+  return { tiers };
+};
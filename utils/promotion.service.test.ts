@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import mongoose from "mongoose";
+import { computeLineDiscounts, unavailableReason } from "./promotion.service";
+
+const now = new Date("2026-06-15T12:00:00Z");
+const limits = (extra: Partial<Parameters<typeof unavailableReason>[0]> = {}) => ({
+  isActive: true,
+  startsAt: new Date("2026-06-01T00:00:00Z"),
+  endsAt: new Date("2026-06-30T23:59:59Z"),
+  usedCount: 0,
+  ...extra,
+});
+
+describe("promotion limits", () => {
+  test("a running promotion without limits is available", () => {
+    expect(unavailableReason(limits(), now, 0)).toBeNull();
+  });
+
+  test("inactive promotions and dates outside the window are refused", () => {
+    expect(unavailableReason(limits({ isActive: false }), now, 0)).toBe("This coupon is not valid at this date");
+    expect(unavailableReason(limits(), new Date("2026-05-31T23:59:59Z"), 0)).toBe("This coupon is not valid at this date");
+    expect(unavailableReason(limits(), new Date("2026-07-01T00:00:00Z"), 0)).toBe("This coupon is not valid at this date");
+  });
+
+  test("the usage limit counts every order", () => {
+    expect(unavailableReason(limits({ usageLimit: 3, usedCount: 2 }), now, 0)).toBeNull();
+    expect(unavailableReason(limits({ usageLimit: 3, usedCount: 3 }), now, 0)).toBe(
+      "This coupon has reached its usage limit"
+    );
+  });
+
+  test("the per-client limit counts the client's own orders", () => {
+    expect(unavailableReason(limits({ perClientLimit: 2 }), now, 1)).toBeNull();
+    expect(unavailableReason(limits({ perClientLimit: 2 }), now, 2)).toBe(
+      "You have already used this coupon the maximum number of times"
+    );
+  });
+});
+
+describe("computeLineDiscounts", () => {
+  const reagent = new mongoose.Types.ObjectId();
+  const tubes = new mongoose.Types.ObjectId();
+  const gloves = new mongoose.Types.ObjectId();
+  const lines = [
+    { productId: reagent, price: 100, quantity: 1, discount: 0 },
+    { productId: tubes, price: 100, quantity: 1, discount: 0 },
+    { productId: gloves, price: 100, quantity: 1, discount: 0 },
+  ];
+  const categories = new Map([
+    [reagent.toString(), "Biochimie"],
+    [tubes.toString(), "Prélèvement"],
+    [gloves.toString(), "Prélèvement"],
+  ]);
+  const promotion = { scope: "store" as const, productIds: [], categories: [], discountType: "percentage" as const, value: 10 };
+
+  test("a percentage applies to every line of an store-wide promotion", () => {
+    expect(computeLineDiscounts(promotion, lines, categories)).toEqual([10, 10, 10]);
+  });
+
+  test("a fixed amount is spread pro rata and the shares add up to it", () => {
+    const discounts = computeLineDiscounts({ ...promotion, discountType: "fixed", value: 100 }, lines, categories);
+    expect(discounts).toEqual([33.33, 33.33, 33.34]);
+  });
+
+  test("a fixed amount never exceeds the eligible total", () => {
+    const discounts = computeLineDiscounts({ ...promotion, discountType: "fixed", value: 1000 }, lines, categories);
+    expect(discounts).toEqual([100, 100, 100]);
+  });
+
+  test("only lines in scope are discounted", () => {
+    const byProduct = computeLineDiscounts({ ...promotion, scope: "product", productIds: [tubes] }, lines, categories);
+    expect(byProduct).toEqual([0, 10, 0]);
+    const byCategory = computeLineDiscounts({ ...promotion, scope: "category", categories: ["Prélèvement"] }, lines, categories);
+    expect(byCategory).toEqual([0, 10, 10]);
+  });
+
+  test("applies on what is left after earlier discounts", () => {
+    const discounted = lines.map((line, i) => (i === 0 ? { ...line, discount: 50 } : line));
+    expect(computeLineDiscounts(promotion, discounted, categories)).toEqual([5, 10, 10]);
+  });
+});
@@ -0,0 +1,221 @@
+import mongoose, { QueryFilter } from "mongoose";
+import Promotion, { IPromotion } from "../entity/Promotion";
+import Commande, { ICommandePromotion } from "../entity/Commande";
+import Product from "../entity/Product";
+
+export interface DiscountableLine {
+  productId: mongoose.Types.ObjectId;
+  price: number;
+  quantity: number;
+}
+
+export interface OrderPricing<T extends DiscountableLine> {
+  products: Array<T & { discount: number }>;
+  subtotal: number;
+  discount: number;
+  total: number;
+  promotions: ICommandePromotion[];
+}
+
+export class PromotionUnavailableError extends Error {
+  constructor(public promotionName: string) {
+    super(`Promotion "${promotionName}" is no longer available`);
+    this.name = "PromotionUnavailableError";
+  }
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Orders that still count against a promotion's limits
+const ACTIVE_ORDER_STATUSES = ["en cours", "on route", "arrived"];
+
+const countClientUses = (promotionId: mongoose.Types.ObjectId, clientId: string, session?: mongoose.ClientSession) =>
+  Commande.countDocuments({
+    idBuyer: clientId,
+    "promotions.promotionId": promotionId,
+    status: { $in: ACTIVE_ORDER_STATUSES },
+  }).session(session || null);
+
+type PromotionLimits = Pick<IPromotion, "isActive" | "startsAt" | "endsAt" | "usageLimit" | "usedCount" | "perClientLimit">;
+
+// Why a promotion cannot be used at this date by a client who used it clientUses times, or null if it can
+export const unavailableReason = (promotion: PromotionLimits, now: Date, clientUses: number): string | null => {
+  if (!promotion.isActive || promotion.startsAt > now || promotion.endsAt < now) {
+    return "This coupon is not valid at this date";
+  }
+  if (promotion.usageLimit && promotion.usedCount >= promotion.usageLimit) {
+    return "This coupon has reached its usage limit";
+  }
+  if (promotion.perClientLimit && clientUses >= promotion.perClientLimit) {
+    return "You have already used this coupon the maximum number of times";
+  }
+  return null;
+};
+
+// Why a promotion cannot be used right now by this client, or null if it can
+const getUnavailableReason = async (promotion: IPromotion, clientId: string, now: Date): Promise<string | null> =>
+  unavailableReason(promotion, now, promotion.perClientLimit ? await countClientUses(promotion._id, clientId) : 0);
+
+// Discount per line for one promotion, applied on what is left after the previous discounts.
+// Fixed amounts are taken once per order and spread over the eligible lines pro rata.
+export const computeLineDiscounts = (
+  promotion: Pick<IPromotion, "scope" | "productIds" | "categories" | "discountType" | "value">,
+  lines: Array<DiscountableLine & { discount: number }>,
+  categories: Map<string, string>
+): number[] => {
+  const eligible = lines.map((line) => {
+    if (promotion.scope === "product") {
+      return promotion.productIds.some((id) => id.toString() === line.productId.toString());
+    }
+    if (promotion.scope === "category") {
+      return promotion.categories.includes(categories.get(line.productId.toString()) || "");
+    }
+    return true;
+  });
+
+  const bases = lines.map((line, i) => (eligible[i] ? round2(line.price * line.quantity - line.discount) : 0));
+  const eligibleTotal = round2(bases.reduce((sum, base) => sum + base, 0));
+  if (eligibleTotal <= 0) {
+    return lines.map(() => 0);
+  }
+
+  const amount =
+    promotion.discountType === "percentage"
+      ? round2((eligibleTotal * Math.min(promotion.value, 100)) / 100)
+      : Math.min(round2(promotion.value), eligibleTotal);
+
+  // The last eligible line absorbs rounding so the shares add up to the amount
+  const lastEligible = eligible.lastIndexOf(true);
+  let allocated = 0;
+  return bases.map((base, i) => {
+    if (!eligible[i]) return 0;
+    const share = i === lastEligible ? round2(amount - allocated) : round2((amount * base) / eligibleTotal);
+    allocated = round2(allocated + share);
+    return share;
+  });
+};
+
+// Price an order for one supplier: the best running automatic promotion, then the coupon if one is given.
+// Returns an error message when the coupon cannot be used.
+export const applyPromotions = async <T extends DiscountableLine>(
+  supplierId: string,
+  clientId: string,
+  lines: T[],
+  couponCode?: string
+): Promise<OrderPricing<T> | { error: string }> => {
+  const now = new Date();
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+  let products = lines.map((line) => ({ ...line, discount: 0 }));
+  const promotions: ICommandePromotion[] = [];
+
+  const catalog = await Product.find({ _id: { $in: lines.map((line) => line.productId) } }).select("category");
+  const categories = new Map(catalog.map((p) => [p._id.toString(), p.category]));
+
+  const apply = (promotion: IPromotion, lineDiscounts: number[]) => {
+    const amount = round2(lineDiscounts.reduce((sum, d) => sum + d, 0));
+    products = products.map((line, i) => ({ ...line, discount: round2(line.discount + lineDiscounts[i]) }));
+    promotions.push({
+      promotionId: promotion._id,
+      name: promotion.name,
+      ...(promotion.code && { code: promotion.code }),
+      discountType: promotion.discountType,
+      value: promotion.value,
+      amount,
+    });
+  };
+
+  // Automatic promotions do not stack with each other: only the most generous one applies
+  const automatic = await Promotion.find({
+    idSupplier: supplierId,
+    code: { $exists: false },
+    isActive: true,
+    startsAt: { $lte: now },
+    endsAt: { $gte: now },
+    minOrderAmount: { $lte: subtotal },
+  });
+
+  let best: { promotion: IPromotion; lineDiscounts: number[]; amount: number } | null = null;
+  for (const promotion of automatic) {
+    if (await getUnavailableReason(promotion, clientId, now)) continue;
+    const lineDiscounts = computeLineDiscounts(promotion, products, categories);
+    const amount = lineDiscounts.reduce((sum, d) => sum + d, 0);
+    if (amount > 0 && (!best || amount > best.amount)) {
+      best = { promotion, lineDiscounts, amount };
+    }
+  }
+  if (best) {
+    apply(best.promotion, best.lineDiscounts);
+  }
+
+  if (couponCode) {
+    const coupon = await Promotion.findOne({ idSupplier: supplierId, code: couponCode.trim().toUpperCase() });
+    if (!coupon) {
+      return { error: "Invalid coupon code" };
+    }
+
+    const reason = await getUnavailableReason(coupon, clientId, now);
+    if (reason) {
+      return { error: reason };
+    }
+    if (subtotal < coupon.minOrderAmount) {
+      return { error: `This coupon requires a minimum order of ${coupon.minOrderAmount.toFixed(2)} DA` };
+    }
+
+    const lineDiscounts = computeLineDiscounts(coupon, products, categories);
+    if (lineDiscounts.every((d) => d === 0)) {
+      return { error: "This coupon does not apply to any product in this order" };
+    }
+    apply(coupon, lineDiscounts);
+  }
+
+  const discount = round2(promotions.reduce((sum, p) => sum + p.amount, 0));
+  return {
+    products,
+    subtotal,
+    discount,
+    total: round2(subtotal - discount),
+    promotions,
+  };
+};
+
+// Count an order against the limits of its promotions (inside the order's transaction).
+// Throws PromotionUnavailableError if a limit was reached since the order was priced.
+export const claimPromotions = async (
+  promotions: ICommandePromotion[],
+  clientId: string,
+  session: mongoose.ClientSession
+): Promise<void> => {
+  for (const applied of promotions) {
+    const promotion = await Promotion.findById(applied.promotionId).session(session);
+    if (!promotion || !promotion.isActive) {
+      throw new PromotionUnavailableError(applied.name);
+    }
+
+    const filter: QueryFilter<IPromotion> = { _id: promotion._id };
+    if (promotion.usageLimit) {
+      filter.usedCount = { $lt: promotion.usageLimit };
+    }
+    const updated = await Promotion.findOneAndUpdate(filter, { $inc: { usedCount: 1 } }, { new: true, session });
+    if (!updated) {
+      throw new PromotionUnavailableError(applied.name);
+    }
+
+    if (promotion.perClientLimit && (await countClientUses(promotion._id, clientId, session)) >= promotion.perClientLimit) {
+      throw new PromotionUnavailableError(applied.name);
+    }
+  }
+};
+
+// Give the uses of a cancelled or refused order back to its promotions
+export const releasePromotions = async (
+  promotions: ICommandePromotion[],
+  session: mongoose.ClientSession
+): Promise<void> => {
+  for (const applied of promotions) {
+    await Promotion.updateOne(
+      { _id: applied.promotionId, usedCount: { $gt: 0 } },
+      { $inc: { usedCount: -1 } },
+      { session }
+    );
+  }
+};
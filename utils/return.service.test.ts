@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import mongoose from "mongoose";
+import { ICommande } from "../entity/Commande";
+import { buildReturnLines, ReturnNotAllowedError } from "./return.service";
+
+const productId = new mongoose.Types.ObjectId();
+const variantId = new mongoose.Types.ObjectId();
+const lotA = { lotId: new mongoose.Types.ObjectId(), lotNumber: "A", expiryDate: new Date("2027-01-01"), quantity: 3 };
+const lotB = { lotId: new mongoose.Types.ObjectId(), lotNumber: "B", expiryDate: new Date("2027-06-01"), quantity: 2 };
+
+// One lot-tracked line of 5 (3 from lot A, 2 from lot B) and one variant line of 4 of the same product
+const orderLines = [
+  { productId, name: "Réactif glucose", price: 150, quantity: 5, discount: 0, lots: [lotA, lotB] },
+  { productId, variantId, name: "Réactif glucose - 500 ml", price: 300, quantity: 4, discount: 0, lots: [] },
+] as unknown as ICommande["products"];
+
+const previousReturn = (quantity: number, lots: Array<typeof lotA> = []) => ({
+  products: [{ productId, name: "Réactif glucose", quantity, lots }],
+});
+
+describe("buildReturnLines", () => {
+  test("allows up to the ordered quantity and takes lots in allocation order", () => {
+    const [line] = buildReturnLines(orderLines, [{ productId: productId.toString(), quantity: 4 }], []);
+    expect(line.quantity).toBe(4);
+    expect(line.lots.map((lot) => [lot.lotNumber, lot.quantity])).toEqual([
+      ["A", 3],
+      ["B", 1],
+    ]);
+  });
+
+  test("counts previous returns against the line and its lots", () => {
+    const previous = [previousReturn(2, [{ ...lotA, quantity: 2 }])];
+    const [line] = buildReturnLines(orderLines, [{ productId: productId.toString(), quantity: 3 }], previous);
+    expect(line.lots.map((lot) => [lot.lotNumber, lot.quantity])).toEqual([
+      ["A", 1],
+      ["B", 2],
+    ]);
+
+    expect(() => buildReturnLines(orderLines, [{ productId: productId.toString(), quantity: 4 }], previous)).toThrow(
+      "Returnable quantity: 3"
+    );
+  });
+
+  test("counts a line requested twice in the same request", () => {
+    const items = [
+      { productId: productId.toString(), quantity: 3 },
+      { productId: productId.toString(), quantity: 3 },
+    ];
+    expect(() => buildReturnLines(orderLines, items, [])).toThrow("Returnable quantity: 2");
+  });
+
+  test("keeps variant lines apart from the product line", () => {
+    const items = [{ productId: productId.toString(), variantId: variantId.toString(), quantity: 4 }];
+    const [line] = buildReturnLines(orderLines, items, [previousReturn(5)]);
+    expect(line.variantId?.toString()).toBe(variantId.toString());
+    expect(line.lots).toEqual([]);
+  });
+
+  test("rejects invalid quantities and products outside the order", () => {
+    expect(() => buildReturnLines(orderLines, [{ productId: productId.toString(), quantity: 0 }], [])).toThrow(
+      ReturnNotAllowedError
+    );
+    expect(() => buildReturnLines(orderLines, [{ productId: productId.toString(), quantity: "abc" }], [])).toThrow(
+      "Invalid product data"
+    );
+    const otherProduct = new mongoose.Types.ObjectId().toString();
+    expect(() => buildReturnLines(orderLines, [{ productId: otherProduct, quantity: 1 }], [])).toThrow(
+      "is not part of this order"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import mongoose from "mongoose";
+import ReturnRequest, { IReturnRequest } from "../entity/ReturnRequest";
+import Commande, { ICommande, ILotAllocation } from "../entity/Commande";
+
+export type ReturnLine = IReturnRequest["products"][number];
+
+export class ReturnNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReturnNotAllowedError";
+  }
+}
+
+// Lines are identified by product and variant
+const lineKey = (productId: unknown, variantId?: unknown) => `${String(productId)}:${variantId ? String(variantId) : ""}`;
+
+// Turn the requested items into return lines, within what is left to return on each order line once the
+// previous (pending or accepted) returns of the order are counted. Throws ReturnNotAllowedError on invalid items.
+export const buildReturnLines = (
+  orderLines: ICommande["products"],
+  items: Array<{ productId?: unknown; variantId?: unknown; quantity?: unknown }>,
+  previousReturns: Array<Pick<IReturnRequest, "products">>
+): ReturnLine[] => {
+  const alreadyReturned: { [key: string]: number } = {};
+  const alreadyReturnedByLot: { [lotId: string]: number } = {};
+  previousReturns.forEach((r) => {
+    r.products.forEach((p) => {
+      const key = lineKey(p.productId, p.variantId);
+      alreadyReturned[key] = (alreadyReturned[key] || 0) + p.quantity;
+      (p.lots || []).forEach((lot) => {
+        alreadyReturnedByLot[lot.lotId.toString()] = (alreadyReturnedByLot[lot.lotId.toString()] || 0) + lot.quantity;
+      });
+    });
+  });
+
+  const returnLines: ReturnLine[] = [];
+  for (const item of items) {
+    const quantity = parseInt(String(item?.quantity));
+    if (!item?.productId || isNaN(quantity) || quantity < 1) {
+      throw new ReturnNotAllowedError("Invalid product data");
+    }
+
+    const key = lineKey(item.productId, item.variantId);
+    const line = orderLines.find((p) => lineKey(p.productId, p.variantId) === key);
+    if (!line) {
+      throw new ReturnNotAllowedError(`Product ${item.productId} is not part of this order`);
+    }
+
+    // A line requested twice counts both quantities against what is left
+    const remaining = line.quantity - (alreadyReturned[key] || 0);
+    if (quantity > remaining) {
+      throw new ReturnNotAllowedError(`Cannot return ${quantity} x ${line.name}. Returnable quantity: ${remaining}`);
+    }
+    alreadyReturned[key] = (alreadyReturned[key] || 0) + quantity;
+
+    // Lot-tracked lines go back to the lots they were delivered from, in allocation order
+    const lots: ILotAllocation[] = [];
+    let toAllocate = quantity;
+    for (const lot of line.lots || []) {
+      const lotId = lot.lotId.toString();
+      const taken = Math.min(lot.quantity - (alreadyReturnedByLot[lotId] || 0), toAllocate);
+      if (taken > 0) {
+        lots.push({ lotId: lot.lotId, lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: taken });
+        alreadyReturnedByLot[lotId] = (alreadyReturnedByLot[lotId] || 0) + taken;
+        toAllocate -= taken;
+      }
+    }
+
+    returnLines.push({
+      productId: line.productId,
+      ...(line.variantId && { variantId: line.variantId }),
+      name: line.name,
+      quantity,
+      lots,
+    });
+  }
+  return returnLines;
+};
+
+// Record a pending return request within the returnable quantities of an arrived commande.
+// The commande is written first, conditionally on it still being arrived, so concurrent requests for the same
+// commande conflict: the losing transaction is retried and its quantity check sees the other request.
+export const recordReturnRequest = async (
+  commandeId: mongoose.Types.ObjectId,
+  buyerId: string,
+  items: Array<{ productId?: unknown; variantId?: unknown; quantity?: unknown }>,
+  details: { reason: IReturnRequest["reason"]; description?: string; evidence: string[] }
+): Promise<InstanceType<typeof ReturnRequest>> => {
+  const session = await mongoose.startSession();
+  try {
+    return await session.withTransaction(async () => {
+      const commande = await Commande.findOneAndUpdate(
+        { _id: commandeId, status: "arrived" },
+        { $set: { updatedAt: new Date() } },
+        { new: true, session }
+      );
+      if (!commande) {
+        throw new ReturnNotAllowedError("Returns can only be requested for arrived orders");
+      }
+
+      const previousReturns = await ReturnRequest.find({
+        id_commande: commande._id,
+        status: { $in: ["pending", "accepted"] },
+      }).session(session);
+      const products = buildReturnLines(commande.products, items, previousReturns);
+
+      const [returnRequest] = await ReturnRequest.create(
+        [
+          {
+            id_commande: commande._id,
+            idBuyer: buyerId,
+            idSupplier: commande.idSupplier,
+            products,
+            ...details,
+            status: "pending",
+          },
+        ],
+        { session }
+      );
+      return returnRequest;
+    });
+  } finally {
+    await session.endSession();
+  }
+};
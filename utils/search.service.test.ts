@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildCatalogFilter,
+  buildSearchGrams,
+  matchWord,
+  normalizeText,
+  parseQuery,
+  queryGrams,
+  rankProducts,
+  scoreProduct,
+  SearchableProduct,
+} from "./search.service";
+
+const product = (name: string, extra: Partial<SearchableProduct> = {}): SearchableProduct => ({ name, ...extra });
+
+describe("accent folding", () => {
+  test("queries and products match with or without accents", () => {
+    expect(normalizeText("Réactif Hématologie")).toBe("reactif hematologie");
+    expect(rankProducts("reactif", [product("Réactif glucose")])).toHaveLength(1);
+    expect(rankProducts("Réactif", [product("Reactif glucose")])).toHaveLength(1);
+  });
+
+  test("candidates share trigrams whatever the accents", () => {
+    const grams = buildSearchGrams(product("Hématologie"));
+    expect(queryGrams(parseQuery("hematologie")).every((gram) => grams.includes(gram))).toBe(true);
+  });
+});
+
+describe("typos and prefixes", () => {
+  test("one typo matches words of 4 letters or more, not shorter ones", () => {
+    expect(matchWord("glucoze", "glucose")).toBeGreaterThan(0);
+    expect(matchWord("gluocse", "glucose")).toBeGreaterThan(0); // Transposition
+    expect(matchWord("kat", "kit")).toBe(0);
+    expect(rankProducts("pipete", [product("Pipette automatique")])).toHaveLength(1);
+  });
+
+  test("a prefix matches better than a typo and less than the whole word", () => {
+    const prefix = matchWord("gluc", "glucose");
+    expect(prefix).toBeLessThan(matchWord("glucose", "glucose"));
+    expect(prefix).toBeGreaterThan(matchWord("glucoze", "glucose"));
+  });
+
+  test("every significant word has to match, stop words are ignored", () => {
+    expect(parseQuery("kit de coloration pour lames")).toEqual(["kit", "coloration", "lames"]);
+    expect(rankProducts("glucose tube", [product("Réactif glucose")])).toHaveLength(0);
+  });
+});
+
+describe("reference and variant scoring", () => {
+  test("the exact reference ranks first", () => {
+    const ranked = rankProducts("GLU-500", [
+      product("Glucose 500 ml"),
+      product("Réactif glucose", { reference: "GLU-500" }),
+    ]);
+    expect(ranked[0].product.reference).toBe("GLU-500");
+  });
+
+  test("variant references and labels are searched", () => {
+    const withVariants = product("Tubes EDTA", {
+      variants: [
+        { reference: "EDTA-4ML", label: "4 ml bouchon violet" },
+        { reference: "EDTA-2ML", label: "2 ml" },
+      ],
+    });
+    expect(scoreProduct(parseQuery("EDTA-2ML"), withVariants)).toBeGreaterThan(scoreProduct(parseQuery("EDTA"), withVariants));
+    expect(rankProducts("violet", [withVariants])).toHaveLength(1);
+    expect(buildSearchGrams(withVariants)).toContain("vio");
+  });
+
+  test("a match in the name counts more than in the description", () => {
+    const ranked = rankProducts("centrifugeuse", [
+      product("Portoir", { description: "Pour centrifugeuse de paillasse" }),
+      product("Centrifugeuse de paillasse"),
+    ]);
+    expect(ranked.map((r) => r.product.name)).toEqual(["Centrifugeuse de paillasse", "Portoir"]);
+  });
+});
+
+describe("tie ordering", () => {
+  test("equal scores are ordered by name, then keep the given order", () => {
+    const first = product("Gants nitrile", { brand: "A" });
+    const second = product("Gants nitrile", { brand: "B" });
+    const ranked = rankProducts("gants", [second, product("Gants latex"), first]);
+    expect(ranked.map((r) => r.product.name)).toEqual(["Gants latex", "Gants nitrile", "Gants nitrile"]);
+    expect(ranked[1].product).toBe(second);
+    expect(ranked[2].product).toBe(first);
+  });
+});
+
+describe("buildCatalogFilter", () => {
+  test("a client's laboratory type replaces the productType parameter", () => {
+    const built = buildCatalogFilter({ productType: "labo d'ana pathologies" }, "Labo médical");
+    expect(built).toEqual({ filter: { productType: { $in: ["Labo médical"] } } });
+  });
+
+  test("without a laboratory type the productType parameter is a list", () => {
+    const built = buildCatalogFilter({ productType: "Labo médical,labo d'ana pathologies" });
+    expect(built).toEqual({ filter: { productType: { $in: ["Labo médical", "labo d'ana pathologies"] } } });
+  });
+
+  test("a facet's own filter is left out of its counts", () => {
+    const built = buildCatalogFilter({ category: "Biochimie", brand: "Biolabo" }, "Labo médical", "category");
+    expect(built).toEqual({ filter: { productType: { $in: ["Labo médical"] }, brand: { $in: ["Biolabo"] } } });
+  });
+
+  test("invalid prices and supplier IDs are errors", () => {
+    expect(buildCatalogFilter({ minPrice: "-1" })).toEqual({ error: "minPrice and maxPrice must be positive numbers" });
+    expect(buildCatalogFilter({ supplierId: "nope" })).toEqual({ error: "Invalid supplier ID" });
+  });
+});
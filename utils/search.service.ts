@@ -0,0 +1,219 @@
+import { Request } from "express";
+import mongoose from "mongoose";
+
+// Catalog search helpers. Everything here is pure so ranking can be checked without a database:
+// products store the trigrams of their searchable words (Product.searchGrams) to fetch candidates,
+// then candidates are ranked in memory with accent-insensitive, prefix and typo-tolerant matching.
+
+export interface SearchableProduct {
+  name: string;
+  brand?: string;
+  category?: string;
+  description?: string;
+  reference?: string;
+  variants?: Array<{ reference?: string; label?: string }>;
+}
+
+// Text of each searched field and how much a match in it counts. Variant SKUs count like the product reference.
+const searchFields = (product: SearchableProduct): Array<{ text: string; weight: number }> => {
+  const variants = product.variants || [];
+  return [
+    { text: [product.reference, ...variants.map((v) => v.reference)].filter(Boolean).join(" "), weight: 6 },
+    { text: product.name || "", weight: 4 },
+    { text: variants.map((v) => v.label).filter(Boolean).join(" "), weight: 3 },
+    { text: product.brand || "", weight: 2.5 },
+    { text: product.category || "", weight: 2 },
+    { text: product.description || "", weight: 1 },
+  ];
+};
+
+// Common French words ignored in queries ("kit de coloration pour lames")
+const STOP_WORDS = new Set(["de", "des", "du", "la", "le", "les", "l", "d", "et", "en", "pour", "a", "au", "aux", "un", "une", "avec"]);
+
+// Lowercase and strip accents: "Réactif Médical" -> "reactif medical"
+export const normalizeText = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+export const tokenize = (text: string): string[] => normalizeText(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+// Trigrams of a word padded with "_" so short words and word starts get their own grams
+const wordGrams = (word: string): string[] => {
+  const padded = `_${word}_`;
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.push(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+// Trigrams stored on the product and used to fetch search candidates
+export const buildSearchGrams = (product: SearchableProduct): string[] => {
+  const grams = new Set<string>();
+  searchFields(product).forEach(({ text }) => {
+    tokenize(text).forEach((word) => wordGrams(word).forEach((gram) => grams.add(gram)));
+  });
+  return Array.from(grams);
+};
+
+// Significant query words, without stop words unless the query is only made of them
+export const parseQuery = (query: string): string[] => {
+  const tokens = tokenize(query);
+  const significant = tokens.filter((token) => !STOP_WORDS.has(token));
+  return significant.length > 0 ? significant : tokens;
+};
+
+export const queryGrams = (tokens: string[]): string[] => Array.from(new Set(tokens.flatMap(wordGrams)));
+
+// Optimal string alignment distance (Levenshtein + adjacent transpositions), stops early above max
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+};
+
+// Typos allowed for a query word of this length
+const allowedTypos = (length: number): number => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// How well one query word matches one indexed word, from 0 (no match) to 1 (exact)
+export const matchWord = (token: string, word: string): number => {
+  if (word === token) return 1;
+  if (word.startsWith(token)) return 0.75; // Partial word: "gluc" -> "glucose"
+  if (token.length >= 3 && word.includes(token)) return 0.5;
+
+  const typos = allowedTypos(token.length);
+  if (typos === 0) return 0;
+  const distance = Math.min(
+    editDistance(token, word, typos),
+    // Partial word with a typo: "glucoz" -> "glucose"
+    word.length > token.length ? editDistance(token, word.slice(0, token.length), typos) : typos + 1
+  );
+  return distance <= typos ? 0.6 - 0.2 * (distance - 1) : 0;
+};
+
+// Relevance of a product for the parsed query words, 0 when a word matches nowhere
+export const scoreProduct = (tokens: string[], product: SearchableProduct): number => {
+  if (tokens.length === 0) return 0;
+
+  const fieldWords = searchFields(product).map(({ text, weight }) => ({ weight, words: tokenize(text) }));
+
+  let score = 0;
+  for (const token of tokens) {
+    let best = 0;
+    fieldWords.forEach(({ weight, words }) => {
+      words.forEach((word) => {
+        best = Math.max(best, weight * matchWord(token, word));
+      });
+    });
+    // Every significant word has to match somewhere
+    if (best === 0) return 0;
+    score += best;
+  }
+
+  // Bonuses for the whole query as a phrase or as the exact reference of the product or one of its variants
+  const phrase = tokens.join(" ");
+  const name = tokenize(product.name)
+    .filter((word) => !STOP_WORDS.has(word))
+    .join(" ");
+  if (name.startsWith(phrase)) {
+    score += 3;
+  } else if (name.includes(phrase)) {
+    score += 1.5;
+  }
+  const references = [product.reference, ...(product.variants || []).map((v) => v.reference)];
+  if (references.some((reference) => reference && tokenize(reference).join(" ") === phrase)) {
+    score += 10;
+  }
+
+  return Math.round(score * 100) / 100;
+};
+
+// Rank products by relevance, dropping the ones that do not match.
+// Equal scores are ordered by name, then keep the order of the given products.
+export const rankProducts = <T extends SearchableProduct>(query: string, products: T[]): Array<{ product: T; score: number }> => {
+  const tokens = parseQuery(query);
+  return products
+    .map((product) => ({ product, score: scoreProduct(tokens, product) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name));
+};
+
+// Comma separated or repeated query values: ?brand=A,B or ?brand=A&brand=B
+const parseListParam = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : typeof value === "string" ? [value] : [];
+  return values
+    .flatMap((v) => String(v).split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+};
+
+// Build the Mongo filter for the public catalog. Facet counts for a dimension
+// are computed without that dimension's own filter so every option stays selectable.
+export const buildCatalogFilter = (
+  query: Request["query"],
+  laboType?: string,
+  exclude?: "category" | "brand"
+): { error: string } | { filter: any } => {
+  const filter: any = {};
+
+  // Clients only see products matching their laboratory type
+  const productTypes = laboType ? [laboType] : parseListParam(query.productType);
+  if (productTypes.length > 0) {
+    filter.productType = { $in: productTypes };
+  }
+
+  const categories = parseListParam(query.category);
+  if (categories.length > 0 && exclude !== "category") {
+    filter.category = { $in: categories };
+  }
+
+  const brands = parseListParam(query.brand);
+  if (brands.length > 0 && exclude !== "brand") {
+    filter.brand = { $in: brands };
+  }
+
+  const minPrice = query.minPrice !== undefined ? parseFloat(String(query.minPrice)) : undefined;
+  const maxPrice = query.maxPrice !== undefined ? parseFloat(String(query.maxPrice)) : undefined;
+  if ((minPrice !== undefined && (isNaN(minPrice) || minPrice < 0)) || (maxPrice !== undefined && (isNaN(maxPrice) || maxPrice < 0))) {
+    return { error: "minPrice and maxPrice must be positive numbers" };
+  }
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    filter.sellingPrice = {
+      ...(minPrice !== undefined && { $gte: minPrice }),
+      ...(maxPrice !== undefined && { $lte: maxPrice }),
+    };
+  }
+
+  if (query.inStock === "true") {
+    filter.quantity = { $gt: 0 };
+  }
+
+  if (query.supplierId !== undefined) {
+    if (typeof query.supplierId !== "string" || !mongoose.Types.ObjectId.isValid(query.supplierId)) {
+      return { error: "Invalid supplier ID" };
+    }
+    filter.supplierId = new mongoose.Types.ObjectId(query.supplierId);
+  }
+
+  return { filter };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import mongoose from "mongoose";
+import { IProductLot } from "../entity/Product";
+import { allocateLots, lotsOf } from "./stock.service";
+
+const now = new Date("2026-06-01T00:00:00Z");
+
+const lot = (lotNumber: string, expiryDate: string, quantity: number, variantId?: mongoose.Types.ObjectId) =>
+  ({
+    _id: new mongoose.Types.ObjectId(),
+    lotNumber,
+    expiryDate: new Date(expiryDate),
+    quantity,
+    ...(variantId && { variantId }),
+  }) as IProductLot;
+
+describe("allocateLots", () => {
+  test("takes from the lots expiring soonest first", () => {
+    const lots = [lot("C", "2027-03-01", 10), lot("A", "2026-07-01", 2), lot("B", "2026-09-01", 3)];
+    const allocations = allocateLots(lots, 6, now);
+    expect(allocations!.map((a) => [a.lotNumber, a.quantity])).toEqual([
+      ["A", 2],
+      ["B", 3],
+      ["C", 1],
+    ]);
+  });
+
+  test("skips expired and empty lots", () => {
+    const lots = [lot("expired", "2026-05-31", 10), lot("empty", "2026-06-15", 0), lot("ok", "2026-12-01", 4)];
+    expect(allocateLots(lots, 4, now)!.map((a) => a.lotNumber)).toEqual(["ok"]);
+  });
+
+  test("a lot expiring today can still be sold", () => {
+    expect(allocateLots([lot("today", "2026-06-01", 1)], 1, now)).toHaveLength(1);
+  });
+
+  test("returns null when the unexpired lots cannot cover the quantity", () => {
+    const lots = [lot("expired", "2026-01-01", 10), lot("ok", "2026-12-01", 4)];
+    expect(allocateLots(lots, 5, now)).toBeNull();
+  });
+
+  test("allocations keep the lot identity for restocking", () => {
+    const source = lot("A", "2026-07-01", 5);
+    const [allocation] = allocateLots([source], 2, now)!;
+    expect(allocation.lotId).toBe(source._id);
+    expect(allocation.expiryDate).toEqual(source.expiryDate);
+  });
+});
+
+describe("lotsOf", () => {
+  test("keeps the lots of one stock line", () => {
+    const variantId = new mongoose.Types.ObjectId();
+    const lots = [lot("P", "2026-07-01", 1), lot("V", "2026-07-01", 1, variantId)];
+    expect(lotsOf(lots).map((l) => l.lotNumber)).toEqual(["P"]);
+    expect(lotsOf(lots, variantId.toString()).map((l) => l.lotNumber)).toEqual(["V"]);
+  });
+});
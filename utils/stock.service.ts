@@ -0,0 +1,231 @@
+import mongoose from "mongoose";
+import Product, { IProduct, IProductLot } from "../entity/Product";
+import { ILotAllocation } from "../entity/Commande";
+
+export interface StockRequest {
+  productId: mongoose.Types.ObjectId | string;
+  variantId?: mongoose.Types.ObjectId | string; // Set when the product is sold by variant
+  name: string;
+  quantity: number;
+  lots?: ILotAllocation[]; // When restoring: the lots the quantity was taken from
+}
+
+export interface StockReservation {
+  lots: ILotAllocation[]; // Lots the quantity was taken from, empty for stock without lots
+  quantityAfter: number; // Stock left on the product, or on the variant
+}
+
+export interface StockShortage {
+  productId: string;
+  variantId?: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+// Thrown when one or more products cannot cover the requested quantity
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(`Insufficient quantity for product(s): ${shortages.map((s) => s.name).join(", ")}`);
+    this.name = "InsufficientStockError";
+    this.shortages = shortages;
+  }
+}
+
+const sameId = (a: unknown, b: unknown): boolean => String(a || "") === String(b || "");
+
+// Stock of the line an item was taken from or given back to
+const lineQuantity = (product: IProduct, variantId?: unknown): number =>
+  variantId ? product.variants.find((v) => sameId(v._id, variantId))?.quantity || 0 : product.quantity;
+
+// Lots of one stock line (the product, or one of its variants)
+export const lotsOf = (lots: IProductLot[] = [], variantId?: unknown): IProductLot[] =>
+  lots.filter((lot) => sameId(lot.variantId, variantId));
+
+// First-expired first-out: take from the lots expiring soonest, skipping expired ones.
+// Returns null when the unexpired lots cannot cover the quantity.
+export const allocateLots = (lots: IProductLot[], quantity: number, now: Date = new Date()): ILotAllocation[] | null => {
+  const usable = lots
+    .filter((lot) => lot.quantity > 0 && lot.expiryDate >= now)
+    .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+
+  const allocations: ILotAllocation[] = [];
+  let remaining = quantity;
+  for (const lot of usable) {
+    if (remaining === 0) break;
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push({ lotId: lot._id, lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: taken });
+    remaining -= taken;
+  }
+  return remaining === 0 ? allocations : null;
+};
+
+// Decrement lot-tracked stock: the lots, the variant if any and the product's total together,
+// conditional on every allocated lot, the variant and the total still holding the quantity.
+// Resolves to null when one of them no longer does, which reserveStock reports as a shortage.
+const takeFromLots = (item: StockRequest, allocations: ILotAllocation[], session: mongoose.ClientSession) => {
+  const inc: { [path: string]: number } = { quantity: -item.quantity, __v: 1 };
+  const arrayFilters: any[] = [];
+  allocations.forEach((allocation, i) => {
+    inc[`lots.$[lot${i}].quantity`] = -allocation.quantity;
+    arrayFilters.push({ [`lot${i}._id`]: allocation.lotId });
+  });
+  if (item.variantId) {
+    inc["variants.$[variant].quantity"] = -item.quantity;
+    arrayFilters.push({ "variant._id": item.variantId });
+  }
+
+  return Product.findOneAndUpdate(
+    {
+      _id: item.productId,
+      quantity: { $gte: item.quantity },
+      ...(item.variantId && {
+        variants: { $elemMatch: { _id: item.variantId, quantity: { $gte: item.quantity } } },
+      }),
+      $and: allocations.map((allocation) => ({
+        lots: { $elemMatch: { _id: allocation.lotId, quantity: { $gte: allocation.quantity } } },
+      })),
+    },
+    { $inc: inc },
+    { new: true, arrayFilters, session }
+  );
+};
+
+// Decrement stock for every item with a conditional atomic update, lot-tracked stock first-expired first-out.
+// Must run inside a transaction: on shortage the error aborts it, rolling back the items already decremented.
+// Returns the lots allocated to each item and the stock left, in the order of the items.
+// Every write also bumps the product's version (__v): products are saved with optimistic concurrency,
+// so a product loaded before the order cannot be saved over its stock.
+export const reserveStock = async (
+  items: StockRequest[],
+  session: mongoose.ClientSession
+): Promise<StockReservation[]> => {
+  const shortages: StockShortage[] = [];
+  const reservations: StockReservation[] = [];
+
+  for (const item of items) {
+    const product = await Product.findById(item.productId).select("lots").session(session);
+    const lots = lotsOf(product?.lots, item.variantId);
+
+    let updated = null;
+    let lineAllocations: ILotAllocation[] = [];
+    if (lots.length > 0) {
+      const allocated = allocateLots(lots, item.quantity);
+      if (allocated) {
+        lineAllocations = allocated;
+        updated = await takeFromLots(item, allocated, session);
+      }
+    } else if (item.variantId) {
+      // Variant stock and the product's total are decremented together
+      updated = await Product.findOneAndUpdate(
+        { _id: item.productId, variants: { $elemMatch: { _id: item.variantId, quantity: { $gte: item.quantity } } } },
+        { $inc: { "variants.$.quantity": -item.quantity, quantity: -item.quantity, __v: 1 } },
+        { new: true, session }
+      );
+    } else {
+      updated = await Product.findOneAndUpdate(
+        { _id: item.productId, quantity: { $gte: item.quantity } },
+        { $inc: { quantity: -item.quantity, __v: 1 } },
+        { new: true, session }
+      );
+    }
+
+    if (!updated) {
+      const current = await Product.findById(item.productId).session(session);
+      const now = new Date();
+      // Expired lots cannot be sold
+      const available =
+        lots.length > 0
+          ? lotsOf(current?.lots, item.variantId)
+              .filter((lot) => lot.expiryDate >= now)
+              .reduce((sum, lot) => sum + lot.quantity, 0)
+          : item.variantId
+            ? current?.variants.find((v) => v._id.toString() === item.variantId!.toString())?.quantity
+            : current?.quantity;
+      shortages.push({
+        productId: item.productId.toString(),
+        variantId: item.variantId?.toString(),
+        name: item.name,
+        requested: item.quantity,
+        available: available || 0,
+      });
+    } else {
+      reservations.push({ lots: lineAllocations, quantityAfter: lineQuantity(updated, item.variantId) });
+    }
+  }
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+  return reservations;
+};
+
+// Put quantities back into stock (cancelled or refused orders, accepted returns).
+// Quantities taken from lots go back to the same lots; a lot deleted since is recreated.
+// Returns the stock of each item's line afterwards, null when the product or variant no longer exists.
+// Bumps the product's version like reserveStock.
+export const restoreStock = async (
+  items: StockRequest[],
+  session: mongoose.ClientSession
+): Promise<Array<number | null>> => {
+  const quantitiesAfter: Array<number | null> = [];
+
+  for (const item of items) {
+    if (!item.lots || item.lots.length === 0) {
+      const updated = item.variantId
+        ? await Product.findOneAndUpdate(
+            { _id: item.productId, "variants._id": item.variantId },
+            { $inc: { "variants.$.quantity": item.quantity, quantity: item.quantity, __v: 1 } },
+            { new: true, session }
+          )
+        : await Product.findOneAndUpdate(
+            { _id: item.productId },
+            { $inc: { quantity: item.quantity, __v: 1 } },
+            { new: true, session }
+          );
+      quantitiesAfter.push(updated ? lineQuantity(updated, item.variantId) : null);
+      continue;
+    }
+
+    // A deleted variant gets nothing back, like stock without lots
+    const filter = { _id: item.productId, ...(item.variantId && { "variants._id": item.variantId }) };
+    const variantFilters = item.variantId ? [{ "variant._id": item.variantId }] : [];
+
+    let updated: IProduct | null = null;
+    for (const allocation of item.lots) {
+      const inc = {
+        quantity: allocation.quantity,
+        __v: 1,
+        ...(item.variantId && { "variants.$[variant].quantity": allocation.quantity }),
+      };
+      updated = await Product.findOneAndUpdate(
+        { ...filter, "lots._id": allocation.lotId },
+        { $inc: { ...inc, "lots.$[lot].quantity": allocation.quantity } },
+        { new: true, arrayFilters: [{ "lot._id": allocation.lotId }, ...variantFilters], session }
+      );
+      if (!updated) {
+        updated = await Product.findOneAndUpdate(
+          filter,
+          {
+            $inc: inc,
+            $push: {
+              lots: {
+                _id: allocation.lotId,
+                lotNumber: allocation.lotNumber,
+                expiryDate: allocation.expiryDate,
+                quantity: allocation.quantity,
+                ...(item.variantId && { variantId: item.variantId }),
+              },
+            },
+          },
+          { new: true, arrayFilters: variantFilters, session }
+        );
+      }
+    }
+    quantitiesAfter.push(updated ? lineQuantity(updated, item.variantId) : null);
+  }
+
+  return quantitiesAfter;
+};
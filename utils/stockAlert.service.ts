@@ -0,0 +1,86 @@
+import mongoose from "mongoose";
+import Product from "../entity/Product";
+import User from "../entity/User";
+import Notification from "../entity/Notification";
+import { StockRequest } from "./stock.service";
+import { sendLowStockAlertEmail, LowStockEmailLine } from "./email.service";
+
+// Socket.io instance (will be set from index.ts)
+let io: any = null;
+export const setSocketIO = (socketIO: any) => {
+  io = socketIO;
+};
+
+// A product, or one of its variants, whose stock is at or below the product's threshold
+export interface LowStockLine extends LowStockEmailLine {
+  productId: string;
+  variantId?: string;
+}
+
+// Lines a committed sale brought down to their threshold: above it before the sale, at or below it now
+const findThresholdCrossings = async (items: StockRequest[]): Promise<LowStockLine[]> => {
+  const products = await Product.find({
+    _id: { $in: items.map((item) => item.productId) },
+    lowStockThreshold: { $ne: null },
+  });
+
+  const crossings: LowStockLine[] = [];
+  for (const item of items) {
+    const product = products.find((p) => p._id.toString() === item.productId.toString());
+    if (!product || product.lowStockThreshold === undefined || product.lowStockThreshold === null) continue;
+
+    const variant = item.variantId && product.variants.find((v) => v._id.toString() === item.variantId!.toString());
+    if (item.variantId && !variant) continue;
+    const quantity = variant ? variant.quantity : product.quantity;
+
+    if (quantity <= product.lowStockThreshold && quantity + item.quantity > product.lowStockThreshold) {
+      crossings.push({
+        productId: product._id.toString(),
+        ...(variant && { variantId: variant._id.toString() }),
+        name: variant ? `${product.name} - ${variant.label}` : product.name,
+        reference: variant ? variant.reference : product.reference,
+        quantity,
+        threshold: product.lowStockThreshold,
+      });
+    }
+  }
+  return crossings;
+};
+
+// Alert the supplier when a sale crossed low-stock thresholds: notification, socket event and,
+// if the supplier opted in, an email. Called once the sale is committed; failures are only logged.
+export const notifyLowStock = async (
+  supplierId: mongoose.Types.ObjectId | string,
+  items: StockRequest[]
+): Promise<void> => {
+  try {
+    const lines = await findThresholdCrossings(items);
+    if (lines.length === 0) return;
+
+    const message = `Stock faible - ${lines.map((line) => `${line.name} : ${line.quantity} restant(s)`).join(", ")}`;
+    const notification = new Notification({
+      idSender: supplierId,
+      idReceiver: supplierId,
+      type: "low_stock",
+      message: message,
+      isRead: false,
+    });
+
+    await notification.save();
+
+    if (io) {
+      io.to(`supplier_${supplierId.toString()}`).emit("lowStock", {
+        products: lines,
+        message: message,
+        notificationId: notification._id.toString(),
+      });
+    }
+
+    const supplier = await User.findById(supplierId);
+    if (supplier?.lowStockEmailAlerts) {
+      await sendLowStockAlertEmail(supplier.email, `${supplier.firstName} ${supplier.lastName}`, lines);
+    }
+  } catch (err: unknown) {
+    console.error("Low-stock alert error:", err);
+  }
+};
@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { AppConfig } from "../config/app.config";
+import {
+  InvalidStorageKeyError,
+  LocalStorageDriver,
+  PRIVATE_LINK_TTL,
+  S3StorageDriver,
+  signedFileUrl,
+  storageKey,
+  verifyFileSignature,
+} from "./storage.service";
+
+// Key, expires and signature of a signed /api/files link
+const parseLink = (url: string) => {
+  const [pathname, search] = url.split("?");
+  const params = new URLSearchParams(search);
+  return {
+    key: decodeURIComponent(pathname.replace("/api/files/", "")),
+    expires: params.get("expires"),
+    signature: params.get("signature"),
+  };
+};
+
+beforeAll(() => {
+  AppConfig.JwtSecret = "test-secret";
+});
+
+afterAll(() => {
+  setSystemTime();
+});
+
+describe("storageKey", () => {
+  test("normalizes stored paths into keys under uploads/", () => {
+    expect(storageKey("uploads\\products\\images\\a.jpg")).toBe("uploads/products/images/a.jpg");
+    expect(storageKey("./uploads/products/a.jpg")).toBe("uploads/products/a.jpg");
+    expect(storageKey("/uploads/products/a.jpg")).toBe("uploads/products/a.jpg");
+  });
+
+  test("refuses paths leaving uploads/", () => {
+    expect(() => storageKey("uploads/../.env")).toThrow(InvalidStorageKeyError);
+    expect(() => storageKey("uploads/products/../../package.json")).toThrow(InvalidStorageKeyError);
+    expect(() => storageKey("../uploads/a.jpg")).toThrow(InvalidStorageKeyError);
+    expect(() => storageKey("config/app.config.ts")).toThrow(InvalidStorageKeyError);
+  });
+});
+
+describe("signed file links", () => {
+  test("a fresh link verifies", () => {
+    const link = parseLink(signedFileUrl("uploads/products/images/a b.jpg"));
+    expect(link.key).toBe("uploads/products/images/a b.jpg");
+    expect(verifyFileSignature(link.key, link.expires, link.signature)).toBe(true);
+  });
+
+  test("an expired link is refused", () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const link = parseLink(signedFileUrl("uploads/products/images/a.jpg", 60));
+    setSystemTime(new Date("2026-01-01T02:00:00Z"));
+    expect(verifyFileSignature(link.key, link.expires, link.signature)).toBe(false);
+    setSystemTime();
+  });
+
+  test("a tampered signature, expiry or key is refused", () => {
+    const link = parseLink(signedFileUrl("uploads/products/images/a.jpg"));
+    const flipped = link.signature!.replace(/^./, (c) => (c === "0" ? "1" : "0"));
+    expect(verifyFileSignature(link.key, link.expires, flipped)).toBe(false);
+    expect(verifyFileSignature(link.key, String(Number(link.expires) + 300), link.signature)).toBe(false);
+    expect(verifyFileSignature("uploads/products/images/b.jpg", link.expires, link.signature)).toBe(false);
+    expect(verifyFileSignature(link.key, link.expires, undefined)).toBe(false);
+  });
+
+  test("links to private files last at most PRIVATE_LINK_TTL", () => {
+    const link = parseLink(signedFileUrl("uploads/payments/proof.pdf", 24 * 3600));
+    expect(Number(link.expires)).toBeLessThanOrEqual(Math.floor(Date.now() / 1000) + PRIVATE_LINK_TTL);
+    expect(verifyFileSignature(link.key, link.expires, link.signature)).toBe(true);
+  });
+
+  test("paths leaving uploads/ cannot be signed", () => {
+    expect(() => signedFileUrl("uploads/../.env")).toThrow(InvalidStorageKeyError);
+  });
+});
+
+describe("LocalStorageDriver", () => {
+  let root: string;
+  let storage: LocalStorageDriver;
+
+  beforeAll(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "labo-storage-"));
+    storage = new LocalStorageDriver(root);
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  test("writes buffers and streams under the root and reads them back", async () => {
+    await storage.put("uploads/products/a.txt", Buffer.from("buffer"));
+    await storage.put("uploads/products/nested/b.txt", Readable.from([Buffer.from("str"), Buffer.from("eam")]));
+
+    expect((await storage.read("uploads/products/a.txt")).toString()).toBe("buffer");
+    expect(await fs.promises.readFile(path.join(root, "uploads/products/nested/b.txt"), "utf8")).toBe("stream");
+    expect(storage.filePath("uploads/products/a.txt")).toBe(path.join(root, "uploads/products/a.txt"));
+  });
+
+  test("lists the files under a prefix", async () => {
+    const keys = (await storage.list("uploads/products")).map((object) => object.key).sort();
+    expect(keys).toEqual(["uploads/products/a.txt", "uploads/products/nested/b.txt"]);
+    expect(await storage.list("uploads/missing")).toEqual([]);
+  });
+
+  test("removes files and ignores missing ones", async () => {
+    await storage.remove("uploads/products/a.txt");
+    await storage.remove("uploads/products/a.txt");
+    expect(fs.existsSync(path.join(root, "uploads/products/a.txt"))).toBe(false);
+  });
+
+  test("never touches paths outside uploads/", async () => {
+    await expect(storage.put("uploads/../escape.txt", Buffer.from("x"))).rejects.toThrow(InvalidStorageKeyError);
+    await expect(storage.read("uploads/../../etc/passwd")).rejects.toThrow(InvalidStorageKeyError);
+    expect(() => storage.filePath("../escape.txt")).toThrow(InvalidStorageKeyError);
+  });
+});
+
+describe("S3StorageDriver", () => {
+  test("presigned links are signed locally with the download filename", async () => {
+    const storage = new S3StorageDriver("labo-uploads", {
+      region: "us-east-1",
+      endpoint: "http://localhost:9000",
+      accessKeyId: "minioadmin",
+      secretAccessKey: "minioadmin",
+    });
+    const url = new URL(
+      await storage.presignedUrl("uploads/payments/proof.pdf", 60, { filename: "payment-1.pdf", cacheControl: "private, no-store" })
+    );
+    expect(url.pathname).toBe("/labo-uploads/uploads/payments/proof.pdf");
+    expect(url.searchParams.get("X-Amz-Expires")).toBe("60");
+    expect(url.searchParams.get("response-content-disposition")).toBe('inline; filename="payment-1.pdf"');
+    expect(url.searchParams.get("response-cache-control")).toBe("private, no-store");
+  });
+});
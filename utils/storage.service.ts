@@ -0,0 +1,266 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import multer from "multer";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { AppConfig } from "../config/app.config";
+
+// Uploads are addressed by key, the relative path records already store ("uploads/products/images/x.jpg").
+// The local driver keeps them under the working directory, the S3 driver uses the key as object key.
+// Clients never get a key: they get a signed, expiring /api/files link (see signedFileUrl), or an
+// authenticated download link for private files.
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface PresignOptions {
+  filename?: string; // Sent back as an inline Content-Disposition
+  cacheControl?: string;
+}
+
+// Files are served from filePath when the backend stores them on disk, otherwise through presignedUrl
+export interface StorageDriver {
+  put(key: string, body: Buffer | Readable, contentType?: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>; // Missing objects are ignored
+  list(prefix: string): Promise<StoredObject[]>;
+  filePath?(key: string): string; // Absolute path of the file on disk
+  presignedUrl?(key: string, expiresIn: number, options?: PresignOptions): Promise<string>; // Direct download link
+}
+
+export class InvalidStorageKeyError extends Error {
+  constructor(public key: string) {
+    super(`Invalid storage key: ${key}`);
+    this.name = "InvalidStorageKeyError";
+  }
+}
+
+// Normalize a stored path into a key: forward slashes, no leading "./" or "/", never outside uploads/
+export const storageKey = (storedPath: string): string => {
+  const key = path.posix.normalize(storedPath.replace(/\\/g, "/")).replace(/^(\.\/)+|^\/+/, "");
+  if (!key.startsWith("uploads/") || key.split("/").includes("..")) {
+    throw new InvalidStorageKeyError(storedPath);
+  }
+  return key;
+};
+
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private root: string = process.cwd()) {}
+
+  filePath(key: string): string {
+    return path.join(this.root, storageKey(key));
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    const target = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(target, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(target));
+    }
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.filePath(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const walk = async (dir: string): Promise<StoredObject[]> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(path.join(this.root, dir), { withFileTypes: true });
+      } catch {
+        return []; // Directory not created yet
+      }
+      const nested = await Promise.all(
+        entries.map(async (entry) => {
+          const key = `${dir}/${entry.name}`;
+          if (entry.isDirectory()) return walk(key);
+          if (!entry.isFile()) return [];
+          const stats = await fs.promises.stat(path.join(this.root, key));
+          return [{ key, size: stats.size, modifiedAt: stats.mtime }];
+        })
+      );
+      return nested.flat();
+    };
+    return walk(storageKey(prefix).replace(/\/$/, ""));
+  }
+}
+
+// Works with AWS S3 and S3-compatible servers (MinIO...) through a custom endpoint
+export class S3StorageDriver implements StorageDriver {
+  private client: S3Client;
+
+  constructor(
+    private bucket: string,
+    options: { region: string; endpoint?: string; accessKeyId: string; secretAccessKey: string }
+  ) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: Boolean(options.endpoint), // Most S3-compatible servers do not support bucket subdomains
+      credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey },
+    });
+  }
+
+  async put(key: string, body: Buffer | Readable, contentType?: string): Promise<void> {
+    // S3 needs the length of the body up front; uploads are at most a few dozen MB
+    const buffer = Buffer.isBuffer(body) ? body : Buffer.concat(await body.toArray());
+    await this.client.send(
+      new PutObjectCommand({ Bucket: this.bucket, Key: storageKey(key), Body: buffer, ContentType: contentType })
+    );
+  }
+
+  async read(key: string): Promise<Buffer> {
+    const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: storageKey(key) }));
+    return Buffer.from(await result.Body!.transformToByteArray());
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: storageKey(key) }));
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, Prefix: storageKey(prefix), ContinuationToken: continuationToken })
+      );
+      (page.Contents || []).forEach((object) => {
+        objects.push({ key: object.Key!, size: object.Size || 0, modifiedAt: object.LastModified || new Date(0) });
+      });
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  async presignedUrl(key: string, expiresIn: number, options: PresignOptions = {}): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: storageKey(key),
+      ResponseContentDisposition: options.filename ? `inline; filename="${options.filename}"` : undefined,
+      ResponseCacheControl: options.cacheControl,
+    });
+    return getSignedUrl(this.client, command, { expiresIn });
+  }
+}
+
+let driver: StorageDriver | null = null;
+
+// Storage driver selected by STORAGE_DRIVER (created on first use, once the config is loaded)
+export const getStorage = (): StorageDriver => {
+  if (!driver) {
+    driver =
+      AppConfig.StorageDriver === "s3"
+        ? new S3StorageDriver(AppConfig.S3Bucket!, {
+            region: AppConfig.S3Region,
+            endpoint: AppConfig.S3Endpoint,
+            accessKeyId: AppConfig.S3AccessKeyId!,
+            secretAccessKey: AppConfig.S3SecretAccessKey!,
+          })
+        : new LocalStorageDriver();
+  }
+  return driver;
+};
+
+// Identity/company documents and payment proofs. Their owners download them through authenticated
+// endpoints (Module/File); signed links to them are only handed to admins and expire quickly.
+export const PRIVATE_UPLOAD_DIRS = ["uploads/documents", "uploads/payments"];
+export const PRIVATE_LINK_TTL = 5 * 60;
+
+export const isPrivateKey = (key: string): boolean => PRIVATE_UPLOAD_DIRS.some((dir) => key.startsWith(`${dir}/`));
+
+const fileSignature = (key: string, expires: number): string =>
+  crypto.createHmac("sha256", AppConfig.JwtSecret).update(`file:${key}:${expires}`).digest("hex");
+
+// Signed, expiring link to a stored file, served by GET /api/files/<key>.
+// Expiry is rounded up to the next 5 minutes so the same file keeps the same URL and stays cached by browsers;
+// links to private files last at most PRIVATE_LINK_TTL and are not rounded.
+export const signedFileUrl = (storedPath: string, ttlSeconds: number = AppConfig.SignedUrlTtl): string => {
+  const key = storageKey(storedPath);
+  const now = Math.floor(Date.now() / 1000);
+  const window = 5 * 60;
+  const expires = isPrivateKey(key)
+    ? now + Math.min(ttlSeconds, PRIVATE_LINK_TTL)
+    : Math.ceil((now + ttlSeconds) / window) * window;
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  return `/api/files/${encodedKey}?expires=${expires}&signature=${fileSignature(key, expires)}`;
+};
+
+// Signed link for an optional stored path
+export const optionalFileUrl = (storedPath?: string | null, ttlSeconds?: number): string | null =>
+  storedPath ? signedFileUrl(storedPath, ttlSeconds) : null;
+
+// Whether a signed link is authentic and not expired. Links to private files signed for longer than
+// PRIVATE_LINK_TTL (before the limit existed) are refused.
+export const verifyFileSignature = (key: string, expires: unknown, signature: unknown): boolean => {
+  const expiresAt = Number(expires);
+  const now = Date.now() / 1000;
+  if (!Number.isInteger(expiresAt) || expiresAt < now || typeof signature !== "string") {
+    return false;
+  }
+  if (isPrivateKey(key) && expiresAt > now + PRIVATE_LINK_TTL) {
+    return false;
+  }
+  const expected = Buffer.from(fileSignature(key, expiresAt));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+type DestinationCallback = (req: any, file: Express.Multer.File, cb: (error: Error | null, destination: string) => void) => void;
+type FilenameCallback = (req: any, file: Express.Multer.File, cb: (error: Error | null, filename: string) => void) => void;
+
+// Multer storage engine writing uploads to the storage driver, with the same options as multer.diskStorage.
+// file.path is set to the storage key so controllers keep storing it as before.
+export const uploadStorage = (options: { destination: string | DestinationCallback; filename: FilenameCallback }): multer.StorageEngine => {
+  const destination = (req: any, file: Express.Multer.File): Promise<string> =>
+    typeof options.destination === "string"
+      ? Promise.resolve(options.destination)
+      : new Promise((resolve, reject) => (options.destination as DestinationCallback)(req, file, (err, dir) => (err ? reject(err) : resolve(dir))));
+  const filename = (req: any, file: Express.Multer.File): Promise<string> =>
+    new Promise((resolve, reject) => options.filename(req, file, (err, name) => (err ? reject(err) : resolve(name))));
+
+  return {
+    _handleFile(req, file, cb) {
+      (async () => {
+        const name = await filename(req, file);
+        const key = storageKey(path.posix.join(await destination(req, file), name));
+        let size = 0;
+        const counted = file.stream.pipe(
+          new Transform({
+            transform(chunk: Buffer, _encoding, done) {
+              size += chunk.length;
+              done(null, chunk);
+            },
+          })
+        );
+        file.stream.on("error", (err: Error) => counted.destroy(err));
+        await getStorage().put(key, counted, file.mimetype);
+        return { destination: path.posix.dirname(key), filename: name, path: key, size };
+      })().then((info) => cb(null, info), cb);
+    },
+    _removeFile(req, file, cb) {
+      getStorage()
+        .remove(file.path)
+        .then(() => cb(null), cb);
+    },
+  };
+};